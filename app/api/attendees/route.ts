@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+import { getCurrentUser } from '@/lib/auth';
+import { exportAttendees, parseAttendeeQuery } from '@/lib/attendees';
+import { TRANSFER_CONTENT_TYPES, parseTransferFormat } from '@/lib/export-stream';
+import { ApiError, withApiHandler } from '@/lib/api';
+
+/**
+ * GET API route handler for exporting the bookings of every event the signed-in organizer owns
+ * Accepts the same query parameters as GET /api/events/[slug]/attendees;
+ * each row also has the slug and title of its event
+ *
+ * @param req - Next.js request object
+ * @returns File download with the bookings of all the organizer's events
+ */
+export const GET = withApiHandler(async (req: NextRequest) => {
+  const format = parseTransferFormat(req.nextUrl.searchParams.get('format'));
+  const query = parseAttendeeQuery(req.nextUrl.searchParams);
+
+  await connectDB();
+
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'You must be signed in to export attendees');
+  }
+
+  const events = await Event.find({ owner: user._id })
+    .select('slug title')
+    .lean<Array<{ _id: Types.ObjectId; slug: string; title: string }>>();
+
+  const filename = `attendees-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  return new NextResponse(exportAttendees(events, query, format, { combined: true }), {
+    status: 200,
+    headers: {
+      'Content-Type': TRANSFER_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+});
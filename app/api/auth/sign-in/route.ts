@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticate, createSession } from '@/lib/auth';
+import { ApiError, withApiHandler } from '@/lib/api';
+
+/**
+ * POST API route handler for signing in
+ * Expects a JSON body with email and password; sets the session cookie
+ *
+ * @param req - Next.js request object
+ * @returns JSON response with the signed-in user
+ */
+export const POST = withApiHandler(async (req: NextRequest) => {
+  const { email, password } = await req.json().catch(() => ({}));
+
+  if (typeof email !== 'string' || typeof password !== 'string') {
+    throw new ApiError(400, 'BAD_REQUEST', 'email and password are required');
+  }
+
+  try {
+    const user = await authenticate(email, password);
+    await createSession(user._id);
+
+    return NextResponse.json(
+      { message: 'Signed in successfully', user: { _id: user._id, name: user.name, email: user.email } },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      throw new ApiError(401, 'UNAUTHORIZED', error.message);
+    }
+    throw error;
+  }
+});
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { destroySession } from '@/lib/auth';
+import { withApiHandler } from '@/lib/api';
+
+/**
+ * POST API route handler for signing out
+ * Deletes the session and clears the session cookie
+ *
+ * @returns JSON response confirming the sign-out
+ */
+export const POST = withApiHandler(async () => {
+  await destroySession();
+
+  return NextResponse.json({ message: 'Signed out successfully' }, { status: 200 });
+});
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, createSession, registerUser } from '@/lib/auth';
+import { ApiError, withApiHandler } from '@/lib/api';
+
+/**
+ * POST API route handler for creating an organizer account
+ * Expects a JSON body with name, email and password; signs the new user in
+ * Invalid account details (e.g. a malformed email) are returned as 422 with a reason per field
+ *
+ * @param req - Next.js request object
+ * @returns JSON response with the created user
+ */
+export const POST = withApiHandler(async (req: NextRequest) => {
+  const { name, email, password } = await req.json().catch(() => ({}));
+
+  if (typeof name !== 'string' || typeof email !== 'string' || typeof password !== 'string') {
+    throw new ApiError(400, 'BAD_REQUEST', 'name, email and password are required');
+  }
+
+  try {
+    const user = await registerUser({ name, email, password });
+    await createSession(user._id);
+
+    return NextResponse.json(
+      { message: 'Account created successfully', user: { _id: user._id, name: user.name, email: user.email } },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      throw new ApiError(400, 'BAD_REQUEST', error.message);
+    }
+    throw error;
+  }
+});
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import connectDB from '@/lib/mongodb';
+import {
+  cancelBookingWithToken,
+  lookupCancellationToken,
+  type CancellationLookup,
+} from '@/lib/bookings';
+import { ApiError, withApiHandler, type ApiErrorCode } from '@/lib/api';
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+type UnusableToken = Exclude<CancellationLookup, { status: 'valid' }>;
+
+/**
+ * HTTP status and error code for cancellation tokens that cannot be used
+ */
+const tokenErrors: Record<UnusableToken['status'], [number, ApiErrorCode]> = {
+  invalid: [400, 'BAD_REQUEST'],
+  'not-found': [404, 'NOT_FOUND'],
+  used: [409, 'CONFLICT'],
+  expired: [410, 'GONE'],
+};
+
+/**
+ * Builds the error for a token that cannot be used; the reason is kept in details
+ */
+function tokenError({ status, message }: UnusableToken): ApiError {
+  const [httpStatus, code] = tokenErrors[status];
+  return new ApiError(httpStatus, code, message, { reason: status });
+}
+
+/**
+ * Serializes the booking details shown to the attendee
+ */
+function toBookingPayload(lookup: Extract<CancellationLookup, { status: 'valid' }>) {
+  const { booking, event } = lookup;
+
+  return {
+    _id: booking._id,
+    email: booking.email,
+    status: booking.status,
+    createdAt: booking.createdAt,
+    cancelledAt: booking.cancelledAt,
+    event: event && {
+      title: event.title,
+      slug: event.slug,
+      date: event.date,
+      time: event.time,
+      venue: event.venue,
+      location: event.location,
+    },
+  };
+}
+
+/**
+ * GET API route handler for looking up the booking behind a cancellation link
+ *
+ * @param req - Next.js request object
+ * @param params - Route parameters containing the signed token
+ * @returns JSON response with booking details
+ * @throws ApiError with the reason the token cannot be used
+ */
+export const GET = withApiHandler(async (req: NextRequest, { params }: RouteContext) => {
+  const { token } = await params;
+
+  await connectDB();
+
+  const lookup = await lookupCancellationToken(token);
+
+  if (lookup.status !== 'valid') {
+    throw tokenError(lookup);
+  }
+
+  return NextResponse.json(
+    { message: 'Booking fetched successfully', booking: toBookingPayload(lookup) },
+    { status: 200 }
+  );
+});
+
+/**
+ * POST API route handler for cancelling a booking through its cancellation link
+ * The link works only once; repeated requests return 409
+ *
+ * @param req - Next.js request object
+ * @param params - Route parameters containing the signed token
+ * @returns JSON response with the cancelled booking
+ * @throws ApiError with the reason the token cannot be used
+ */
+export const POST = withApiHandler(async (req: NextRequest, { params }: RouteContext) => {
+  const { token } = await params;
+
+  await connectDB();
+
+  const result = await cancelBookingWithToken(token);
+
+  if (result.status !== 'valid') {
+    throw tokenError(result);
+  }
+
+  revalidatePath('/events/[slug]', 'page');
+  revalidatePath('/');
+
+  return NextResponse.json(
+    { message: 'Booking cancelled successfully', booking: toBookingPayload(result) },
+    { status: 200 }
+  );
+});
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { getCurrentUser, isEventOwner } from '@/lib/auth';
+import { resolveEventSlug } from '@/lib/events';
+import { exportAttendees, parseAttendeeQuery } from '@/lib/attendees';
+import { TRANSFER_CONTENT_TYPES, parseTransferFormat } from '@/lib/export-stream';
+import { ApiError, withApiHandler } from '@/lib/api';
+
+/**
+ * GET API route handler for exporting the bookings of an event
+ * Only the event owner can export its attendees
+ *
+ * Query parameters:
+ * - format: csv or json (default)
+ * - from, to: bookings made in the range
+ * - status: confirmed, waitlisted or cancelled
+ *
+ * @param req - Next.js request object
+ * @param params - Route parameters containing the slug
+ * @returns File download with the email, booking time and status of every booking
+ */
+export const GET = withApiHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) => {
+  const { slug } = await params;
+  const trimmedSlug = slug.trim().toLowerCase();
+  const format = parseTransferFormat(req.nextUrl.searchParams.get('format'));
+  const query = parseAttendeeQuery(req.nextUrl.searchParams);
+
+  await connectDB();
+
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'You must be signed in to export attendees');
+  }
+
+  const resolved = await resolveEventSlug(trimmedSlug);
+  if (!resolved) {
+    throw new ApiError(404, 'NOT_FOUND', `Event with slug "${trimmedSlug}" not found`);
+  }
+
+  const { event, isCurrentSlug } = resolved;
+
+  if (!isCurrentSlug) {
+    const url = new URL(`/api/events/${event.slug}/attendees`, req.url);
+    url.search = req.nextUrl.search;
+    return NextResponse.redirect(url, 308);
+  }
+
+  if (!isEventOwner(user, event)) {
+    throw new ApiError(403, 'FORBIDDEN', 'Only the event owner can export its attendees');
+  }
+
+  return new NextResponse(exportAttendees([event], query, format), {
+    status: 200,
+    headers: {
+      'Content-Type': TRANSFER_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${event.slug}-attendees.${format}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+});
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Types } from 'mongoose';
+import { revalidatePath } from 'next/cache';
+import connectDB from '@/lib/mongodb';
+import type { IEvent } from '@/database';
+import { getCurrentUser, isEventOwner } from '@/lib/auth';
+import { checkInTicket, getAttendanceStats, type CheckInResult } from '@/lib/bookings';
+import { resolveEventSlug } from '@/lib/events';
+import { ApiError, readRequestBody, withApiHandler, type ApiErrorCode } from '@/lib/api';
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+type RejectedCheckIn = Exclude<CheckInResult, { status: 'checked-in' }>;
+
+/**
+ * HTTP status and error code for tickets that cannot be checked in
+ */
+const checkInErrors: Record<RejectedCheckIn['status'], [number, ApiErrorCode]> = {
+  invalid: [400, 'BAD_REQUEST'],
+  'not-found': [404, 'NOT_FOUND'],
+  'wrong-event': [404, 'NOT_FOUND'],
+  'already-checked-in': [409, 'CONFLICT'],
+  cancelled: [409, 'CONFLICT'],
+  waitlisted: [409, 'CONFLICT'],
+};
+
+/**
+ * Builds the error for a rejected ticket; the reason and the time of an earlier check-in are kept in details
+ */
+function checkInError({ status, message, booking }: RejectedCheckIn): ApiError {
+  const [httpStatus, code] = checkInErrors[status];
+  return new ApiError(httpStatus, code, message, {
+    reason: status,
+    ...(booking?.checkedInAt && { checkedInAt: booking.checkedInAt.toISOString() }),
+  });
+}
+
+/**
+ * Finds the event for the slug route parameter and checks that the signed-in organizer owns it
+ * Old slugs are followed with a 308 redirect, which keeps the request method
+ *
+ * @returns The event, or a redirect to its current slug
+ * @throws ApiError 401 when nobody is signed in, 403 for other organizers, 404 for unknown slugs
+ */
+async function findOwnedEvent(req: NextRequest, { params }: RouteContext): Promise<IEvent | NextResponse> {
+  const { slug } = await params;
+  const trimmedSlug = slug.trim().toLowerCase();
+
+  await connectDB();
+
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'You must be signed in to check attendees in');
+  }
+
+  const resolved = await resolveEventSlug(trimmedSlug);
+  if (!resolved) {
+    throw new ApiError(404, 'NOT_FOUND', `Event with slug "${trimmedSlug}" not found`);
+  }
+
+  const { event, isCurrentSlug } = resolved;
+
+  if (!isCurrentSlug) {
+    return NextResponse.redirect(new URL(`/api/events/${event.slug}/check-in`, req.url), 308);
+  }
+
+  if (!isEventOwner(user, event)) {
+    throw new ApiError(403, 'FORBIDDEN', 'Only the event owner can check attendees in');
+  }
+
+  return event;
+}
+
+/**
+ * GET API route handler for the attendance of an event
+ * Only the event owner can see it
+ *
+ * @param req - Next.js request object
+ * @param params - Route parameters containing the slug
+ * @returns JSON response with booking and check-in counts
+ */
+export const GET = withApiHandler(async (req: NextRequest, context: RouteContext) => {
+  const event = await findOwnedEvent(req, context);
+  if (event instanceof NextResponse) {
+    return event;
+  }
+
+  return NextResponse.json(
+    { message: 'Attendance fetched successfully', attendance: await getAttendanceStats(event._id as Types.ObjectId) },
+    { status: 200 }
+  );
+});
+
+/**
+ * POST API route handler for checking in an attendee by ticket code
+ * Body (JSON or form data): { code } - the ticket code, or the scanned content of its QR image
+ * A ticket is accepted once; scanning it again returns 409
+ *
+ * @param req - Next.js request object
+ * @param params - Route parameters containing the slug
+ * @returns JSON response with the checked-in booking
+ * @throws ApiError with the reason the ticket is rejected
+ */
+export const POST = withApiHandler(async (req: NextRequest, context: RouteContext) => {
+  const event = await findOwnedEvent(req, context);
+  if (event instanceof NextResponse) {
+    return event;
+  }
+
+  const { code } = await readRequestBody(req);
+  if (typeof code !== 'string' || code.trim().length === 0) {
+    throw new ApiError(400, 'BAD_REQUEST', 'A ticket code is required');
+  }
+
+  const result = await checkInTicket(event._id as Types.ObjectId, code);
+
+  if (result.status !== 'checked-in') {
+    throw checkInError(result);
+  }
+
+  revalidatePath('/events/[slug]/check-in', 'page');
+
+  const { booking } = result;
+
+  return NextResponse.json(
+    {
+      message: 'Checked in successfully',
+      booking: {
+        _id: booking._id,
+        email: booking.email,
+        ticketCode: booking.ticketCode,
+        checkedInAt: booking.checkedInAt,
+      },
+    },
+    { status: 200 }
+  );
+});
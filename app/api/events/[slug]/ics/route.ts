@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { buildCalendar } from '@/lib/ics';
+import { resolveEventSlug } from '@/lib/events';
+import { ApiError, withApiHandler } from '@/lib/api';
+
+/**
+ * GET API route handler for exporting a single event as an iCalendar (.ics) file
+ *
+ * @param req - Next.js request object
+ * @param params - Route parameters containing the slug
+ * @returns text/calendar response with one VEVENT
+ */
+export const GET = withApiHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) => {
+  const { slug } = await params;
+  const trimmedSlug = slug.trim().toLowerCase();
+
+  await connectDB();
+
+  const resolved = await resolveEventSlug(trimmedSlug);
+
+  if (!resolved) {
+    throw new ApiError(404, 'NOT_FOUND', `Event with slug "${trimmedSlug}" not found`);
+  }
+
+  const { event, isCurrentSlug } = resolved;
+
+  if (!isCurrentSlug) {
+    return NextResponse.redirect(new URL(`/api/events/${event.slug}/ics`, req.url), 308);
+  }
+
+  const calendar = buildCalendar([event], {
+    name: event.title,
+    baseUrl: process.env.NEXT_PUBLIC_BASE_URL ?? req.nextUrl.origin,
+  });
+
+  return new NextResponse(calendar, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${event.slug}.ics"`,
+    },
+  });
+});
@@ -1,112 +1,263 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
 import connectDB from '@/lib/mongodb';
-import Event, { IEvent } from '@/database/event.model';
+import { Booking, type IEvent } from '@/database';
+import { fillFromWaitlist, getAttendeeSummary } from '@/lib/bookings';
+import { EDITABLE_EVENT_FIELDS, resolveEventSlug } from '@/lib/events';
+import { getCurrentUser, isEventOwner } from '@/lib/auth';
+import { deleteImage, importImage, uploadImage, type StoredImage } from '@/lib/storage';
+import { ApiError, RequestValidationError, readRequestBody, withApiHandler } from '@/lib/api';
+import { validate } from '@/lib/validation';
+import { updateEventSchema } from '@/lib/validation/event';
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+/**
+ * Validates and normalizes the slug route parameter
+ *
+ * @returns The normalized slug
+ * @throws ApiError if it is missing or empty
+ */
+async function readSlug({ params }: RouteContext): Promise<string> {
+  // Await params to get the slug value (Next.js 15+ requires awaiting params)
+  const { slug } = await params;
+
+  // Validate slug format (should be non-empty after trimming)
+  const trimmedSlug = typeof slug === 'string' ? slug.trim().toLowerCase() : '';
+  if (trimmedSlug.length === 0) {
+    throw new ApiError(400, 'INVALID_PARAMETER', 'Slug parameter is required and cannot be empty');
+  }
+
+  return trimmedSlug;
+}
+
+/**
+ * Finds the event for a slug, following its slug history
+ *
+ * @throws ApiError 404 if no event has or had this slug
+ */
+async function findEvent(slug: string): Promise<{ event: IEvent; isCurrentSlug: boolean }> {
+  const resolved = await resolveEventSlug(slug);
+
+  if (!resolved) {
+    throw new ApiError(404, 'NOT_FOUND', `Event with slug "${slug}" not found`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Builds a permanent redirect from an old slug to the event's current slug
+ * 308 keeps the request method, so PATCH and DELETE follow it too
+ */
+function redirectToCurrentSlug(req: NextRequest, event: IEvent): NextResponse {
+  return NextResponse.redirect(new URL(`/api/events/${event.slug}`, req.url), 308);
+}
+
+/**
+ * Checks that the signed-in organizer owns an event
+ *
+ * @throws ApiError 401 when nobody is signed in, 403 for organizers changing an event they do not own
+ */
+async function requireOwner(event: IEvent): Promise<void> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'You must be signed in to do this');
+  }
+
+  if (!isEventOwner(user, event)) {
+    throw new ApiError(403, 'FORBIDDEN', 'Only the event owner can change this event');
+  }
+}
+
+/**
+ * Serializes an event together with its live booking numbers
+ */
+async function toEventPayload(event: IEvent) {
+  // Aggregate live booking numbers for this event
+  const attendees = await getAttendeeSummary(event._id);
+
+  return {
+    _id: event._id,
+    title: event.title,
+    slug: event.slug,
+    description: event.description,
+    overview: event.overview,
+    image: event.image,
+    venue: event.venue,
+    location: event.location,
+    date: event.date,
+    time: event.time,
+    timezone: event.timezone,
+    startsAt: event.startsAt,
+    endDate: event.endDate,
+    endTime: event.endTime,
+    endsAt: event.endsAt,
+    mode: event.mode,
+    audience: event.audience,
+    agenda: event.agenda,
+    organizer: event.organizer,
+    owner: event.owner ?? null,
+    tags: event.tags,
+    capacity: event.capacity ?? null,
+    seatsLeft: event.capacity ? Math.max(event.capacity - event.seatsTaken, 0) : null,
+    bookingCount: attendees.total,
+    attendees,
+    createdAt: event.createdAt,
+    updatedAt: event.updatedAt,
+  };
+}
 
 /**
  * GET API route handler for fetching an event by slug
+ * Old slugs (from before a title edit) permanently redirect to the current one
  * 
  * @param req - Next.js request object
  * @param params - Route parameters containing the slug
- * @returns JSON response with event data or error message
+ * @returns JSON response with event data
+ */
+export const GET = withApiHandler(async (req: NextRequest, context: RouteContext) => {
+  const slug = await readSlug(context);
+
+  // Connect to MongoDB
+  await connectDB();
+
+  // Query event by current slug, falling back to its slug history
+  const { event, isCurrentSlug } = await findEvent(slug);
+
+  if (!isCurrentSlug) {
+    return redirectToCurrentSlug(req, event);
+  }
+
+  // Return successful response with event data
+  return NextResponse.json(
+    { message: 'Event fetched successfully', event: await toEventPayload(event) },
+    { status: 200 }
+  );
+});
+
+/**
+ * PATCH API route handler for updating an event
+ * Requires the signed-in organizer to own the event
+ * Changes are applied to the document and saved, so schema validation and the
+ * pre-save hook (slug, date/time normalization) run exactly as on creation
+ * Invalid or unknown fields are rejected with 422 and a reason per field
+ *
+ * @param req - Next.js request object with a JSON or multipart body of fields to change
+ * @param params - Route parameters containing the slug
+ * @returns JSON response with the updated event
  */
+export const PATCH = withApiHandler(async (req: NextRequest, context: RouteContext) => {
+  const slug = await readSlug(context);
+  const body = await readRequestBody(req);
+
+  // An uploaded file replaces the image; a string is an image URL, downloaded and stored like an upload
+  const imageFile = body.image instanceof File ? body.image : undefined;
+  const fields = imageFile ? Object.fromEntries(Object.entries(body).filter(([key]) => key !== 'image')) : body;
+
+  // Only editable fields are accepted; derived fields such as slug are rejected as unknown
+  const parsed = validate(updateEventSchema, fields);
+  if (!parsed.success) {
+    throw new RequestValidationError(parsed.errors);
+  }
+
+  // Fields left empty are not changed
+  const updates: Record<string, unknown> = Object.fromEntries(
+    Object.entries(parsed.data).filter(([, value]) => value !== undefined)
+  );
+
+  const imageSource = imageFile ?? (updates.image as string | undefined);
+  delete updates.image;
+
+  if (Object.keys(updates).length === 0 && !imageSource) {
+    throw new ApiError(400, 'BAD_REQUEST', `Nothing to update. Editable fields: ${EDITABLE_EVENT_FIELDS.join(', ')}`);
+  }
+
+  await connectDB();
+
+  const { event, isCurrentSlug } = await findEvent(slug);
+
+  if (!isCurrentSlug) {
+    return redirectToCurrentSlug(req, event);
+  }
+
+  await requireOwner(event);
+
+  const previousCapacity = event.capacity;
+  const previousImageKey = event.imageKey;
+  let uploadedImage: StoredImage | undefined;
 
-export async function GET(
-  req: NextRequest,
-  { params }: { params: Promise<{ slug: string }> }
-): Promise<NextResponse> {
   try {
-    // Await params to get the slug value (Next.js 15+ requires awaiting params)
-    const { slug } = await params;
-
-    // Validate slug parameter
-    if (!slug || typeof slug !== 'string') {
-      return NextResponse.json(
-        { message: 'Slug parameter is required and must be a string' },
-        { status: 400 }
-      );
+    // Checked for type, size and dimensions before it is stored
+    if (imageSource) {
+      uploadedImage = imageSource instanceof File ? await uploadImage(imageSource) : await importImage(imageSource);
+      updates.image = uploadedImage.url;
     }
 
-    // Validate slug format (should be non-empty after trimming)
-    const trimmedSlug = slug.trim().toLowerCase();
-    if (trimmedSlug.length === 0) {
-      return NextResponse.json(
-        { message: 'Slug cannot be empty' },
-        { status: 400 }
-      );
-    }
+    event.set(updates);
 
-    // Connect to MongoDB
-    await connectDB();
+    // The stored copy replaces the previous image
+    const imageReplaced = uploadedImage !== undefined;
+    if (uploadedImage) {
+      event.imageKey = uploadedImage.key;
+    }
 
-    // Query event by slug (case-insensitive search)
-    const event: IEvent | null = await Event.findOne({ slug: trimmedSlug });
+    await event.save();
 
-    // Handle event not found
-    if (!event) {
-      return NextResponse.json(
-        { message: `Event with slug "${trimmedSlug}" not found` },
-        { status: 404 }
-      );
+    if (imageReplaced) {
+      await deleteImage(previousImageKey);
     }
-
-    // Return successful response with event data
-    return NextResponse.json(
-      {
-        message: 'Event fetched successfully',
-        event: {
-          _id: event._id,
-          title: event.title,
-          slug: event.slug,
-          description: event.description,
-          overview: event.overview,
-          image: event.image,
-          venue: event.venue,
-          location: event.location,
-          date: event.date,
-          time: event.time,
-          mode: event.mode,
-          audience: event.audience,
-          agenda: event.agenda,
-          organizer: event.organizer,
-          tags: event.tags,
-          createdAt: event.createdAt,
-          updatedAt: event.updatedAt,
-        },
-      },
-      { status: 200 }
-    );
   } catch (error) {
-    // Log error for debugging (in production, use proper logging service)
-    console.error('Error fetching event by slug:', error);
-
-    // Handle known error types
-    if (error instanceof Error) {
-      // Database connection errors
-      if (error.message.includes('MongoServerError') || error.message.includes('connection')) {
-        return NextResponse.json(
-          { message: 'Database connection error', error: 'Unable to connect to database' },
-          { status: 503 }
-        );
-      }
-
-      // Mongoose validation errors
-      if (error.name === 'ValidationError' || error.name === 'CastError') {
-        return NextResponse.json(
-          { message: 'Invalid request parameters', error: error.message },
-          { status: 400 }
-        );
-      }
-    }
+    // The update failed, so the new image is not used
+    await deleteImage(uploadedImage?.key);
+    throw error;
+  }
 
-    // Generic error response for unexpected errors
-    return NextResponse.json(
-      {
-        message: 'Internal server error',
-        error: process.env.NODE_ENV === 'development' 
-          ? (error instanceof Error ? error.message : 'Unknown error')
-          : 'An unexpected error occurred',
-      },
-      { status: 500 }
-    );
+  // Raising the capacity frees seats for people on the waitlist
+  if (event.capacity !== previousCapacity) {
+    await fillFromWaitlist(event._id);
   }
-}
\ No newline at end of file
+
+  revalidatePath('/');
+  revalidatePath(`/events/${slug}`);
+  revalidatePath(`/events/${event.slug}`);
+
+  return NextResponse.json(
+    { message: 'Event updated successfully', event: await toEventPayload(event) },
+    { status: 200 }
+  );
+});
+
+/**
+ * DELETE API route handler for deleting an event and its bookings
+ * Requires the signed-in organizer to own the event
+ *
+ * @param req - Next.js request object
+ * @param params - Route parameters containing the slug
+ * @returns JSON response confirming the deletion
+ */
+export const DELETE = withApiHandler(async (req: NextRequest, context: RouteContext) => {
+  const slug = await readSlug(context);
+
+  await connectDB();
+
+  const { event, isCurrentSlug } = await findEvent(slug);
+
+  if (!isCurrentSlug) {
+    return redirectToCurrentSlug(req, event);
+  }
+
+  await requireOwner(event);
+
+  await event.deleteOne();
+  const { deletedCount } = await Booking.deleteMany({ eventId: event._id });
+  await deleteImage(event.imageKey);
+
+  revalidatePath('/');
+  revalidatePath(`/events/${event.slug}`);
+
+  return NextResponse.json(
+    { message: 'Event deleted successfully', slug: event.slug, deletedBookings: deletedCount },
+    { status: 200 }
+  );
+});
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+import { buildCalendar } from '@/lib/ics';
+import { normalizeTag } from '@/lib/tags';
+import { withApiHandler } from '@/lib/api';
+
+/**
+ * GET API route handler for the subscribable calendar feed of upcoming events
+ * Events that have started but not yet ended are still included
+ * Supports optional `?tag=` and `?mode=` filters
+ *
+ * @param req - Next.js request object
+ * @returns text/calendar response with one VEVENT per upcoming event
+ */
+export const GET = withApiHandler(async (req: NextRequest) => {
+  const tag = normalizeTag(req.nextUrl.searchParams.get('tag') ?? '');
+  const mode = req.nextUrl.searchParams.get('mode')?.trim().toLowerCase();
+
+  await connectDB();
+
+  const events = await Event.find({
+    endsAt: { $gte: new Date() },
+    ...(tag && { tags: tag }),
+    ...(mode && { mode }),
+  })
+    .sort({ startsAt: 1 })
+    .lean();
+
+  const name = ['DevEvent', tag, mode].filter(Boolean).join(' · ');
+
+  const calendar = buildCalendar(events, {
+    name,
+    baseUrl: process.env.NEXT_PUBLIC_BASE_URL ?? req.nextUrl.origin,
+  });
+
+  return new NextResponse(calendar, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="devevent.ics"',
+      'Cache-Control': 'public, max-age=900',
+    },
+  });
+});
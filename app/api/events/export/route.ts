@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { getCurrentUser } from '@/lib/auth';
+import { parseEventQuery } from '@/lib/events';
+import { ApiError, withApiHandler } from '@/lib/api';
+import { exportEvents } from '@/lib/event-transfer';
+import { TRANSFER_CONTENT_TYPES, parseTransferFormat } from '@/lib/export-stream';
+
+/**
+ * GET API route handler for exporting events as CSV or JSON
+ * Accepts the same filters and sorting as GET /api/events, without paging:
+ * every matching event is exported, e.g. /api/events/export?format=csv&mode=hybrid
+ * The file can be edited and imported again through POST /api/events/import
+ *
+ * @param req - Next.js request object
+ * @returns The export as a file download
+ */
+export const GET = withApiHandler(async (req: NextRequest) => {
+  const format = parseTransferFormat(req.nextUrl.searchParams.get('format'));
+  const query = parseEventQuery(req.nextUrl.searchParams);
+
+  await connectDB();
+
+  if (!(await getCurrentUser())) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'You must be signed in to export events');
+  }
+
+  const filename = `events-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  return new NextResponse(exportEvents(query, format), {
+    status: 200,
+    headers: {
+      'Content-Type': TRANSFER_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+});
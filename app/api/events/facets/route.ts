@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { getEventFacets, parseEventQuery } from '@/lib/events';
+import { withApiHandler } from '@/lib/api';
+
+/**
+ * GET API route handler for facet counts of an event listing
+ * Accepts the same filters as GET /api/events, e.g. /api/events/facets?from=2025-07-01&mode=hybrid
+ *
+ * @param req - Next.js request object
+ * @returns Event counts per mode, tag, location and month
+ * @throws EventQueryError (400) for invalid filters
+ */
+export const GET = withApiHandler(async (req: NextRequest) => {
+  const query = parseEventQuery(req.nextUrl.searchParams);
+
+  await connectDB();
+
+  const facets = await getEventFacets(query);
+
+  return NextResponse.json({ message: 'Facets fetched successfully', facets }, { status: 200 });
+});
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import connectDB from '@/lib/mongodb';
+import { getCurrentUser } from '@/lib/auth';
+import { ApiError, withApiHandler } from '@/lib/api';
+import { MAX_IMPORT_BYTES, detectTransferFormat, importEvents, parseImportFile } from '@/lib/event-transfer';
+import type { TransferFormat } from '@/lib/export-stream';
+
+/**
+ * Reads the import file from the request
+ * The file is the raw body (text/csv or application/json), or a multipart field named file
+ *
+ * @throws ApiError if the body is too large or neither CSV nor JSON
+ */
+async function readImportFile(req: NextRequest): Promise<{ text: string; format: TransferFormat }> {
+  const contentType = req.headers.get('content-type');
+
+  if (Number(req.headers.get('content-length')) > MAX_IMPORT_BYTES) {
+    throw new ApiError(400, 'BAD_REQUEST', `Import file must be at most ${MAX_IMPORT_BYTES / (1024 * 1024)} MB`);
+  }
+
+  let text: string;
+  let format: TransferFormat | null;
+
+  if (contentType?.includes('multipart/form-data')) {
+    const file = await req.formData().then((formData) => formData.get('file'), () => null);
+    if (!(file instanceof File)) {
+      throw new ApiError(400, 'BAD_REQUEST', 'Form data must contain the import file in a field named file');
+    }
+
+    text = await file.text();
+    format = detectTransferFormat(file.name) ?? detectTransferFormat(file.type);
+  } else {
+    text = await req.text();
+    format = detectTransferFormat(contentType);
+  }
+
+  if (!format) {
+    throw new ApiError(400, 'BAD_REQUEST', 'Import file must be CSV (text/csv) or JSON (application/json)');
+  }
+
+  if (text.length > MAX_IMPORT_BYTES) {
+    throw new ApiError(400, 'BAD_REQUEST', `Import file must be at most ${MAX_IMPORT_BYTES / (1024 * 1024)} MB`);
+  }
+
+  return { text, format };
+}
+
+/**
+ * POST API route handler for bulk importing events from CSV or JSON
+ * Events are matched by slug: existing events of the signed-in organizer are updated, others created
+ * With ?dryRun=true nothing is written; the report shows what would be created, updated or rejected
+ * If any row is invalid nothing is written and the report is returned with 422;
+ * so is a row that fails while writing, with the rows written before it counted in the report
+ *
+ * @param req - Next.js request object with the import file
+ * @returns Import report with the outcome of every row
+ */
+export const POST = withApiHandler(async (req: NextRequest) => {
+  await connectDB();
+
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'You must be signed in to import events');
+  }
+
+  const dryRun = ['true', '1'].includes(req.nextUrl.searchParams.get('dryRun') ?? '');
+  const { text, format } = await readImportFile(req);
+
+  const report = await importEvents(parseImportFile(text, format), { owner: user, dryRun });
+
+  const { written } = report;
+  if (written > 0) {
+    revalidatePath('/');
+    revalidatePath('/events/[slug]', 'page');
+  }
+
+  if (!dryRun && !report.applied) {
+    const message = written > 0
+      ? `Some rows could not be written; ${written} of ${report.rows.length} were imported`
+      : 'Some rows are invalid; nothing was imported';
+    throw new ApiError(422, 'VALIDATION_FAILED', message, report);
+  }
+
+  return NextResponse.json(
+    { message: dryRun ? 'Import checked successfully' : 'Events imported successfully', report },
+    { status: 200 }
+  );
+});
@@ -1,65 +1,72 @@
 import connectDB from "@/lib/mongodb";
 import { NextRequest, NextResponse } from "next/server";
 import Event from "@/database/event.model";
-import { v2 as cloudinary } from 'cloudinary';
-import { connect } from "http2";
+import { withBookingCounts } from "@/lib/bookings";
+import { getCurrentUser } from "@/lib/auth";
+import { findEvents, parseEventQuery } from "@/lib/events";
+import { deleteImage, importImage, uploadImage, type StoredImage } from "@/lib/storage";
+import { ApiError, RequestValidationError, readRequestBody, withApiHandler } from "@/lib/api";
+import { validate } from "@/lib/validation";
+import { createEventSchema } from "@/lib/validation/event";
 
-export async function POST (req: NextRequest) {
-    try {
-        await connectDB();
-        const formData = await req.formData();
-
-        let event;
-
-        try {
-            event = Object.fromEntries(formData.entries());
-        } catch (e) {
-            console.error(e);
-            return NextResponse.json({ message: 'Invalid JSON format'}, { status: 400 });
-        }
+/**
+ * POST API route handler for creating an event
+ * Accepts multipart form data with an image file, or a JSON body (tags and agenda as arrays);
+ * either way the image may also be given as a URL, which is downloaded and stored like an upload
+ *
+ * @returns The created event; 422 with a reason per field if the input is invalid
+ */
+export const POST = withApiHandler(async (req: NextRequest) => {
+    await connectDB();
 
-        const file = formData.get('image') as File;
-        if(!file) {
-            return NextResponse.json({message: 'Image file is required'}, {status: 400})
-        }
+    // Only signed-in organizers may create events (and upload images)
+    const user = await getCurrentUser();
+    if (!user) {
+        throw new ApiError(401, 'UNAUTHORIZED', 'You must be signed in to create an event');
+    }
 
-        let tags = JSON.parse(formData.get('tags') as string);
-        let agenda = JSON.parse(formData.get('agenda') as string);
- 
-        const arrayBuffer = await file.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
-        const uploadResult = await new Promise((resolve, reject) => {
-            cloudinary.uploader.upload_stream({ resource_type: 'image', folder: 'DevEvent'}, (error, results) => {
-                if(error) return reject(error);
+    // Both request styles go through the same schema, so all problems are reported together
+    const parsed = validate(createEventSchema, await readRequestBody(req));
+    if (!parsed.success) {
+        throw new RequestValidationError(parsed.errors);
+    }
 
-                resolve(results);
-            }).end(buffer);
-        });
+    const { image: imageSource, ...fields } = parsed.data;
 
-        event.image = (uploadResult as {secure_url: string}).secure_url;
+    // Checked for type, size and dimensions before it is stored
+    const image: StoredImage = imageSource instanceof File
+        ? await uploadImage(imageSource)
+        : await importImage(imageSource);
 
+    try {
         const createdEvent = await Event.create({
-            ...event,
-            tags: tags,
-            agenda: agenda,
+            ...fields,
+            image: image.url,
+            imageKey: image.key,
+            owner: user._id,
         });
-        return NextResponse.json({ message: 'Event created successfuly', event: createdEvent }, {status: 201})
 
+        return NextResponse.json({ message: 'Event created successfuly', event: createdEvent }, {status: 201})
     } catch (e) {
-        console.error(e);
-        return NextResponse.json({ message: 'Event Creation Failed', error: e instanceof Error ? e.message : "uknown error" }, { status: 500 });
+        // The event was not created, so its image would never be used
+        await deleteImage(image.key);
+        throw e;
     }
-}
+});
 
-export async function GET () {
-    try {
-        await connectDB();
+/**
+ * GET API route handler for listing events
+ * Filters, sorting and pagination come from the query string, see parseEventQuery
+ * e.g. /api/events?mode=hybrid&location=london&from=2025-07-01&to=2025-07-31&sort=date
+ *
+ * @returns A page of events and the cursor of the next page (null on the last page)
+ */
+export const GET = withApiHandler(async (req: NextRequest) => {
+    const query = parseEventQuery(req.nextUrl.searchParams);
 
-        const events = await Event.find().sort({ createdAt: -1 });
+    await connectDB();
 
-        return NextResponse.json({ message: 'Events fetched successfully', events }, {status: 200});
+    const { events, nextCursor } = await findEvents(query);
 
-    } catch (e) {
-        return NextResponse.json({ message: 'Event fetching failed', error: e}, {status: 500});
-    }
-}
\ No newline at end of file
+    return NextResponse.json({ message: 'Events fetched successfully', events: await withBookingCounts(events), nextCursor }, {status: 200});
+});
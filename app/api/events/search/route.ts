@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { withBookingCounts } from '@/lib/bookings';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_QUERY_LENGTH,
+  MAX_SEARCH_LIMIT,
+  MIN_QUERY_LENGTH,
+  searchEvents,
+} from '@/lib/search';
+import { ApiError, withApiHandler } from '@/lib/api';
+
+/**
+ * GET API route handler for keyword search
+ * Searches title, tags, description, organizer and overview via the weighted text index
+ *
+ * Query parameters:
+ * - q: search terms (required); supports "exact phrases" and -excluded terms
+ * - limit: maximum number of results
+ *
+ * @param req - Next.js request object
+ * @returns Events ordered by relevance, each with a score and highlighted snippets
+ */
+export const GET = withApiHandler(async (req: NextRequest) => {
+  const query = req.nextUrl.searchParams.get('q')?.trim() ?? '';
+  const limitParam = req.nextUrl.searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_SEARCH_LIMIT;
+
+  if (query.length < MIN_QUERY_LENGTH || query.length > MAX_QUERY_LENGTH) {
+    throw new ApiError(
+      400,
+      'INVALID_QUERY',
+      `Search query must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters`
+    );
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+    throw new ApiError(400, 'INVALID_QUERY', `limit must be a whole number between 1 and ${MAX_SEARCH_LIMIT}`);
+  }
+
+  await connectDB();
+
+  const events = await withBookingCounts(await searchEvents(query, limit));
+
+  return NextResponse.json({ message: 'Search completed successfully', query, events }, { status: 200 });
+});
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import Event from '@/database/event.model';
+import { withApiHandler } from '@/lib/api';
+
+/**
+ * GET API route handler for the tag list
+ *
+ * @returns Every tag with the number of events using it, most used first
+ */
+export const GET = withApiHandler(async () => {
+  await connectDB();
+
+  const tags = await Event.aggregate<{ tag: string; count: number }>([
+    { $unwind: '$tags' },
+    { $group: { _id: '$tags', count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $project: { _id: 0, tag: '$_id', count: 1 } },
+  ]);
+
+  return NextResponse.json({ message: 'Tags fetched successfully', tags }, { status: 200 });
+});
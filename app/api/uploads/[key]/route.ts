@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readUploadedImage } from '@/lib/storage';
+import { ApiError, withApiHandler } from '@/lib/api';
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+/**
+ * GET API route handler serving images stored by the local storage adapter
+ *
+ * @param params - Route parameters containing the storage key
+ * @returns The image
+ * @throws ApiError 404 if there is no such image
+ */
+export const GET = withApiHandler(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) => {
+  const { key } = await params;
+  const image = await readUploadedImage(key);
+
+  if (!image) {
+    throw new ApiError(404, 'NOT_FOUND', 'Image not found');
+  }
+
+  return new NextResponse(new Uint8Array(image), {
+    status: 200,
+    headers: {
+      'Content-Type': CONTENT_TYPES[key.split('.').pop() ?? ''] ?? 'application/octet-stream',
+      'Content-Length': image.length.toString(),
+      // Keys are random and never reused, so the file behind a URL never changes
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+});
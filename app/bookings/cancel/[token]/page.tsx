@@ -0,0 +1,42 @@
+import Link from "next/link";
+import CancelBooking from "@/components/CancelBooking";
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
+
+const CancelBookingPage = async ({ params }: { params: Promise<{ token: string }> }) => {
+  const { token } = await params;
+  const request = await fetch(`${BASE_URL}/api/bookings/cancel/${token}`, { cache: 'no-store' });
+  const { booking, message } = await request.json();
+
+  return (
+    <section id="cancel">
+      <div className="header">
+        <h1>Cancel Booking</h1>
+      </div>
+
+      <div className="signup-card">
+        {booking ? (
+          <>
+            <div className="flex-col-gap-2">
+              <h2>{booking.event?.title ?? 'Event'}</h2>
+              {booking.event && (
+                <p>{booking.event.date} · {booking.event.time} · {booking.event.venue}, {booking.event.location}</p>
+              )}
+              <p className="text-sm">
+                Booked by {booking.email}{booking.status === 'waitlisted' && ' (on the waitlist)'}
+              </p>
+            </div>
+
+            <CancelBooking token={token} />
+          </>
+        ) : (
+          <p>{message}</p>
+        )}
+
+        <Link href="/" className="text-sm text-light-200 underline">Back to events</Link>
+      </div>
+    </section>
+  )
+}
+
+export default CancelBookingPage
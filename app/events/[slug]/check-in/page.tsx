@@ -0,0 +1,78 @@
+import Link from "next/link";
+import { notFound, permanentRedirect, redirect } from "next/navigation";
+import type { Types } from "mongoose";
+import CheckIn from "@/components/CheckIn";
+import connectDB from "@/lib/mongodb";
+import { getCurrentUser, isEventOwner } from "@/lib/auth";
+import { getAttendanceStats } from "@/lib/bookings";
+import { resolveEventSlug } from "@/lib/events";
+import { getCheckInPath } from "@/lib/tickets";
+
+const CheckInPage = async ({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ slug: string }>,
+  searchParams: Promise<{ code?: string }>,
+}) => {
+  const { slug } = await params;
+  const { code } = await searchParams;
+
+  // Ticket QR codes open this page with the code filled in; keep it through sign-in and renames
+  const user = await getCurrentUser();
+  if (!user) redirect(`/sign-in?next=${encodeURIComponent(getCheckInPath(slug, code))}`);
+
+  await connectDB();
+
+  const resolved = await resolveEventSlug(slug.trim().toLowerCase());
+  if (!resolved) return notFound();
+
+  const { event, isCurrentSlug } = resolved;
+  if (!isCurrentSlug) permanentRedirect(getCheckInPath(event.slug, code));
+
+  if (!isEventOwner(user, event)) {
+    return (
+      <section id="check-in">
+        <div className="header">
+          <h1>Check-in</h1>
+          <p>Only the organizer of {event.title} can check attendees in.</p>
+          <Link href={`/events/${event.slug}`}>Back to the event</Link>
+        </div>
+      </section>
+    );
+  }
+
+  const stats = await getAttendanceStats(event._id as Types.ObjectId);
+
+  return (
+    <section id="check-in">
+      <div className="header">
+        <h1>Check-in</h1>
+        <p>{event.title} · {event.date} · {event.venue}</p>
+        <Link href={`/events/${event.slug}`}>Back to the event</Link>
+      </div>
+
+      <div className="signup-card">
+        <h2>Scan a ticket</h2>
+        <CheckIn eventId={event._id.toString()} initialCode={code} />
+      </div>
+
+      <div className="signup-card">
+        <h2>Attendance</h2>
+        <dl className="stats">
+          <div><dt>Checked in</dt><dd>{stats.checkedIn}</dd></div>
+          <div><dt>Booked</dt><dd>{stats.booked}</dd></div>
+          <div>
+            <dt>Attendance</dt>
+            <dd>{stats.attendanceRate === null ? '–' : `${Math.round(stats.attendanceRate * 100)}%`}</dd>
+          </div>
+          <div><dt>Not arrived</dt><dd>{stats.notCheckedIn}</dd></div>
+          <div><dt>Waitlisted</dt><dd>{stats.waitlisted}</dd></div>
+          <div><dt>Cancelled</dt><dd>{stats.cancelled}</dd></div>
+        </dl>
+      </div>
+    </section>
+  )
+}
+
+export default CheckInPage
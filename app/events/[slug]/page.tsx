@@ -1,9 +1,19 @@
-import { notFound } from "next/navigation";
+import { notFound, permanentRedirect } from "next/navigation";
 import Image from "next/image";
+import Link from "next/link";
 import BookEvent from "@/components/BookEvent";
 import { IEvent } from "@/database";
 import { getSimilarEventsBySlug } from "@/lib/actions/event.actions";
 import EventCard from "@/components/EventCard";
+import LocalTime from "@/components/LocalTime";
+import { formatEventDateRange, formatEventTimeRange } from "@/lib/datetime";
+import { getTagPath } from "@/lib/tags";
+import { hasEventEnded } from "@/lib/events";
+import { getCurrentUser, isEventOwner } from "@/lib/auth";
+import AttendeeExport from "@/components/AttendeeExport";
+import { getCheckInPath } from "@/lib/tickets";
+import { getAttendanceStats } from "@/lib/bookings";
+import connectDB from "@/lib/mongodb";
 
 const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
 
@@ -28,7 +38,7 @@ const EventAgenda = ({ agendaItems }: { agendaItems: string[] }) => (
 const EventTags = ({ tags }: { tags:string[] }) => (
   <div className="flex flex-row gap-1.5 flex-wrap">
       {tags.map((tag) => (
-        <div className="pill" key={tag}>{tag}</div>
+        <Link href={getTagPath(tag)} className="pill" key={tag}>{tag}</Link>
       ))}
   </div>
 );
@@ -36,11 +46,30 @@ const EventTags = ({ tags }: { tags:string[] }) => (
 const EventDetailsPage = async ({ params }: { params: Promise<{ slug: string }> }) => {
   const { slug } = await params;
   const request = await fetch(`${BASE_URL}/api/events/${slug}`);
-  const { event: {description, image, overview, date, time, location, mode, agenda, audience, organizer, tags} } = await request.json();
+  const { event } = await request.json();
 
-  const bookings = 10;
+  if (!event) return notFound();
 
-  const similarEvents: IEvent[] = await getSimilarEventsBySlug(slug);
+  // The API follows old slugs to the renamed event; send the browser to the current URL
+  if (event.slug !== slug) permanentRedirect(`/events/${event.slug}`);
+
+  const {_id, description, image, overview, date, time, timezone, startsAt, endsAt, location, mode, agenda, audience, organizer, tags, capacity, seatsLeft, bookingCount: bookings, attendees} = event;
+
+  const hasEnded = hasEventEnded(event);
+
+  // Only checked-in attendees were actually there, not everyone who booked
+  let attended = 0;
+  if (hasEnded) {
+    await connectDB();
+    attended = (await getAttendanceStats(_id)).checkedIn;
+  }
+
+  // Owners can download who booked their event and check attendees in
+  const user = await getCurrentUser();
+  const isOwner = user !== null && isEventOwner(user, event);
+
+  // Failures are logged by the action; the page still renders without recommendations
+  const similarEvents: IEvent[] = await getSimilarEventsBySlug(slug).catch(() => []);
 
   console.log(similarEvents);
 
@@ -67,12 +96,18 @@ const EventDetailsPage = async ({ params }: { params: Promise<{ slug: string }>
 
         <section className="flex-col-gap-2">
         <h2>Event Details</h2>
-        <EventDetailItem icon="/icons/calendar.svg" alt="calendar" label={date}/>
-        <EventDetailItem icon="/icons/clock.svg" alt="clock" label={time}/>
+        <EventDetailItem icon="/icons/calendar.svg" alt="calendar" label={startsAt ? formatEventDateRange(startsAt, endsAt, timezone) : date}/>
+        <EventDetailItem icon="/icons/clock.svg" alt="clock" label={startsAt ? `${formatEventTimeRange(startsAt, endsAt, timezone)} (${timezone})` : time}/>
+        {startsAt && <LocalTime startsAt={startsAt} endsAt={endsAt} timezone={timezone} className="local-time"/>}
         <EventDetailItem icon="/icons/pin.svg" alt="pin" label={location}/>
         <EventDetailItem icon="/icons/mode.svg" alt="mode" label={mode}/>
         <EventDetailItem icon="/icons/audience.svg" alt="audience" label={audience}/>
 
+        <a href={`/api/events/${slug}/ics`} className="calendar-btn" download>
+          <Image src="/icons/calendar.svg" alt="calendar" width={17} height={17}/>
+          Add to calendar
+        </a>
+
         </section>
 
         <EventAgenda agendaItems={agenda}/>
@@ -90,15 +125,50 @@ const EventDetailsPage = async ({ params }: { params: Promise<{ slug: string }>
 
       <aside className="booking">
        <div className="signup-card">
-        <h2>Book Your Spot</h2>
-        {bookings > 0 ? (
-          <p className="text-sm">Join {bookings} people who have already booked their spot!</p>
-        ): (
-          <p className="text-sm">Be the first to book your spot!</p>
+        {hasEnded ? (
+          <>
+            <h2>This event has ended</h2>
+            <p className="ended">
+              {attended > 0 && `${attended} ${attended === 1 ? 'person' : 'people'} attended. `}
+              Find your next one among the <Link href="/events">upcoming events</Link>.
+            </p>
+          </>
+        ) : (
+          <>
+            <h2>Book Your Spot</h2>
+            {capacity && (
+              seatsLeft > 0 ? (
+                <p className="seats">{seatsLeft} of {capacity} seats left</p>
+              ) : (
+                <p className="seats">
+                  Fully booked{attendees.waitlisted > 0 && ` · ${attendees.waitlisted} on the waitlist`}
+                </p>
+              )
+            )}
+            {bookings > 0 ? (
+              <div className="flex-col-gap-2">
+                <p className="text-sm">Join {bookings} {bookings === 1 ? 'person who has' : 'people who have'} already booked their spot!</p>
+                {attendees.joinedThisWeek > 0 && (
+                  <p className="text-xs text-light-200">{attendees.joinedThisWeek} joined in the last 7 days</p>
+                )}
+              </div>
+            ): (
+              <p className="text-sm">Be the first to book your spot!</p>
+            )}
+
+            <BookEvent eventId={_id} isFull={capacity !== null && seatsLeft === 0}/>
+          </>
         )}
-
-        <BookEvent/>
        </div>
+
+       {isOwner && (
+         <div className="signup-card">
+           <h2>Attendees</h2>
+           <p className="text-sm">Download the email, booking time, status and check-in time of everyone who booked.</p>
+           <AttendeeExport slug={event.slug}/>
+           <Link href={getCheckInPath(event.slug)} className="check-in-link">Open check-in</Link>
+         </div>
+       )}
       </aside>
       </div>
       <div className="flex w-full flex-col gap-4 pt-20">
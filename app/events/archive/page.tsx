@@ -0,0 +1,41 @@
+import Link from "next/link";
+import EventCard from "@/components/EventCard";
+import { IEvent } from "@/database";
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
+const PAGE_SIZE = 12;
+
+const ArchivePage = async ({ searchParams }: { searchParams: Promise<{ cursor?: string }> }) => {
+  const { cursor } = await searchParams;
+
+  // Most recently ended first
+  const query = new URLSearchParams({ when: 'past', sort: 'date', limit: String(PAGE_SIZE), ...(cursor && { cursor }) });
+  const response = await fetch(`${BASE_URL}/api/events?${query}`, { cache: 'no-store' });
+  const { events = [], nextCursor } = await response.json();
+
+  return (
+    <section id="archive">
+      <div className="header">
+        <h1>Past Events</h1>
+        <p>Events that have already taken place. Looking for what&apos;s next? <Link href="/events">Browse upcoming events</Link></p>
+      </div>
+
+      {events.length === 0 && <p className="empty">No past events yet.</p>}
+
+      <ul className="events">
+        {events.map((event: IEvent) => (
+          <li key={event.slug}>
+            <EventCard {...event} />
+          </li>
+        ))}
+      </ul>
+
+      <div className="pagination">
+        {cursor && <Link href="/events/archive">First page</Link>}
+        {nextCursor && <Link href={`/events/archive?cursor=${encodeURIComponent(nextCursor)}`}>Next page</Link>}
+      </div>
+    </section>
+  )
+}
+
+export default ArchivePage
@@ -0,0 +1,22 @@
+import { redirect } from "next/navigation";
+import CreateEventForm from "@/components/CreateEventForm";
+import { getCurrentUser } from "@/lib/auth";
+
+const CreateEventPage = async () => {
+  const user = await getCurrentUser();
+
+  if (!user) redirect('/sign-in?next=/events/create');
+
+  return (
+    <section id="create">
+      <div className="header">
+        <h1>Create Event</h1>
+        <p>Share your meetup, hackathon or conference with the community</p>
+      </div>
+
+      <CreateEventForm />
+    </section>
+  )
+}
+
+export default CreateEventPage
@@ -0,0 +1,116 @@
+import Link from "next/link";
+import EventCard from "@/components/EventCard";
+import { IEvent } from "@/database";
+import type { EventFacet, FacetCount } from "@/lib/events";
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
+const PAGE_SIZE = 12;
+
+type Filters = Partial<Record<EventFacet, string>>;
+
+const FACET_TITLES: Record<EventFacet, string> = {
+  mode: 'Mode',
+  tag: 'Tags',
+  location: 'Location',
+  month: 'Month',
+};
+
+const formatMonth = (month: string) =>
+  new Intl.DateTimeFormat('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }).format(new Date(`${month}-01T00:00:00Z`));
+
+/**
+ * Builds the URL of the listing with one facet set to a value, or cleared when it is already selected
+ * Pagination restarts because the results change
+ */
+const hrefWith = (filters: Filters, facet: EventFacet, value: string) => {
+  const params = new URLSearchParams(
+    Object.entries({ ...filters, [facet]: filters[facet] === value ? undefined : value })
+      .filter((entry): entry is [string, string] => Boolean(entry[1]))
+  );
+  const query = params.toString();
+
+  return query ? `/events?${query}` : '/events';
+}
+
+const EventsPage = async ({ searchParams }: { searchParams: Promise<Filters & { cursor?: string }> }) => {
+  const { cursor, ...rest } = await searchParams;
+  const filters: Filters = Object.fromEntries(
+    Object.entries(rest).filter(([facet, value]) => facet in FACET_TITLES && typeof value === 'string' && value)
+  );
+
+  // Only upcoming events; the list is ordered by start time
+  const query = new URLSearchParams({ ...filters, when: 'upcoming' });
+  const listQuery = new URLSearchParams({ ...Object.fromEntries(query), sort: 'date', limit: String(PAGE_SIZE), ...(cursor && { cursor }) });
+
+  const [listResponse, facetsResponse] = await Promise.all([
+    fetch(`${BASE_URL}/api/events?${listQuery}`, { cache: 'no-store' }),
+    fetch(`${BASE_URL}/api/events/facets?${query}`, { cache: 'no-store' }),
+  ]);
+  const { events = [], nextCursor, message } = await listResponse.json();
+  const { facets } = await facetsResponse.json() as { facets?: Record<EventFacet, FacetCount[]> };
+
+  const hasFilters = Object.keys(filters).length > 0;
+  const currentQuery = new URLSearchParams(filters as Record<string, string>).toString();
+
+  return (
+    <section id="browse">
+      <div className="header">
+        <h1>Upcoming Events</h1>
+        <p>Browse by mode, topic, city or month, or look back at <Link href="/events/archive">past events</Link></p>
+      </div>
+
+      <div className="layout">
+        <aside className="facets">
+          {hasFilters && <Link href="/events" scroll={false} className="clear">Clear filters</Link>}
+
+          {facets && (Object.keys(FACET_TITLES) as EventFacet[]).map((facet) => (
+            <nav key={facet} aria-label={FACET_TITLES[facet]}>
+              <h3>{FACET_TITLES[facet]}</h3>
+              <ul>
+                {facets[facet].map(({ value, count }) => (
+                  <li key={value}>
+                    <Link
+                      href={hrefWith(filters, facet, value)}
+                      scroll={false}
+                      className={filters[facet] === value ? 'active' : ''}
+                      aria-current={filters[facet] === value ? 'true' : undefined}
+                    >
+                      <span>{facet === 'month' ? formatMonth(value) : value}</span>
+                      <span className="count">{count}</span>
+                    </Link>
+                  </li>
+                ))}
+                {facets[facet].length === 0 && <li className="empty">None</li>}
+              </ul>
+            </nav>
+          ))}
+        </aside>
+
+        <div className="results">
+          {!listResponse.ok && <p className="error">{message}</p>}
+
+          {listResponse.ok && events.length === 0 && (
+            <p className="empty">No upcoming events match these filters.</p>
+          )}
+
+          <ul className="events">
+            {events.map((event: IEvent) => (
+              <li key={event.slug}>
+                <EventCard {...event} />
+              </li>
+            ))}
+          </ul>
+
+          <div className="pagination">
+            {cursor && <Link href={currentQuery ? `/events?${currentQuery}` : '/events'}>First page</Link>}
+            {nextCursor && (
+              <Link href={`/events?${new URLSearchParams({ ...filters, cursor: nextCursor })}`}>Next page</Link>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  )
+}
+
+export default EventsPage
@@ -8,7 +8,8 @@ const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
 const page = async () => {
   'use cache';
   cacheLife('hours')
-  const response = await fetch(`${BASE_URL}/api/events`)
+  // Only events that have not ended yet, soonest first
+  const response = await fetch(`${BASE_URL}/api/events?when=upcoming&sort=date`)
   const { events } = await response.json();
 
   return (
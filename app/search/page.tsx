@@ -0,0 +1,59 @@
+import EventCard from "@/components/EventCard";
+import Highlight from "@/components/Highlight";
+import type { SearchResult, SearchSnippet } from "@/lib/search";
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
+
+const FIELD_LABELS: Record<SearchSnippet['field'], string> = {
+  title: 'Title',
+  tags: 'Tags',
+  description: 'Description',
+  organizer: 'Organizer',
+  overview: 'Overview',
+};
+
+const SearchPage = async ({ searchParams }: { searchParams: Promise<{ q?: string }> }) => {
+  const { q = '' } = await searchParams;
+  const query = q.trim();
+
+  let events: SearchResult[] = [];
+  let message: string | null = null;
+
+  if (query) {
+    const response = await fetch(`${BASE_URL}/api/events/search?q=${encodeURIComponent(query)}`, { cache: 'no-store' });
+    const data = await response.json();
+    events = data.events ?? [];
+    if (!response.ok) message = data.message;
+  }
+
+  return (
+    <section id="search">
+      <div className="header">
+        <h1>Search</h1>
+        {query ? (
+          <p>{message ?? `${events.length} ${events.length === 1 ? 'result' : 'results'} for "${query}"`}</p>
+        ) : (
+          <p>Search events by title, description, tags or organizer</p>
+        )}
+      </div>
+
+      {events.length > 0 && (
+        <ul className="events">
+          {events.map((event) => (
+            <li key={event._id.toString()}>
+              <EventCard {...event} />
+              {/* The title is already on the card, so show where else the terms matched */}
+              {event.snippets.filter((snippet) => snippet.field !== 'title').slice(0, 2).map((snippet) => (
+                <p className="snippet" key={snippet.field}>
+                  <span>{FIELD_LABELS[snippet.field]}:</span> <Highlight {...snippet} />
+                </p>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
+
+export default SearchPage
@@ -0,0 +1,15 @@
+import AuthForm from "@/components/AuthForm";
+
+const SignInPage = async ({ searchParams }: { searchParams: Promise<{ next?: string }> }) => {
+  const { next } = await searchParams;
+
+  return (
+    <section id="auth">
+      <h1>Sign In</h1>
+      <p className="text-center">Sign in to create and manage your events</p>
+      <AuthForm mode="sign-in" next={next} />
+    </section>
+  )
+}
+
+export default SignInPage
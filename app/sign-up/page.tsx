@@ -0,0 +1,15 @@
+import AuthForm from "@/components/AuthForm";
+
+const SignUpPage = async ({ searchParams }: { searchParams: Promise<{ next?: string }> }) => {
+  const { next } = await searchParams;
+
+  return (
+    <section id="auth">
+      <h1>Create Account</h1>
+      <p className="text-center">Organizer accounts can publish and manage events</p>
+      <AuthForm mode="sign-up" next={next} />
+    </section>
+  )
+}
+
+export default SignUpPage
@@ -0,0 +1,67 @@
+import Link from "next/link";
+import { notFound, permanentRedirect } from "next/navigation";
+import EventCard from "@/components/EventCard";
+import { IEvent } from "@/database";
+import { getTagPath, normalizeTag } from "@/lib/tags";
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL;
+const PAGE_SIZE = 12;
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+const TagPage = async ({ params, searchParams }: {
+  params: Promise<{ tag: string }>;
+  searchParams: Promise<{ cursor?: string }>;
+}) => {
+  const { tag: rawTag } = await params;
+  const { cursor } = await searchParams;
+  const requestedTag = decodeSegment(rawTag);
+  const tag = normalizeTag(requestedTag);
+
+  if (!tag) notFound();
+
+  // Send /tags/ReactJS and friends to the canonical tag page
+  if (tag !== requestedTag) permanentRedirect(getTagPath(tag));
+
+  const query = new URLSearchParams({
+    tag,
+    when: 'upcoming',
+    sort: 'date',
+    limit: String(PAGE_SIZE),
+    ...(cursor && { cursor }),
+  });
+  const response = await fetch(`${BASE_URL}/api/events?${query}`, { cache: 'no-store' });
+  const { events = [], nextCursor } = await response.json();
+
+  return (
+    <section id="tag">
+      <div className="header">
+        <h1>#{tag}</h1>
+        <p>Upcoming events tagged {tag}</p>
+      </div>
+
+      {events.length === 0 && <p className="empty">No upcoming events with this tag.</p>}
+
+      <ul className="events">
+        {events.map((event: IEvent) => (
+          <li key={event.slug}>
+            <EventCard {...event} />
+          </li>
+        ))}
+      </ul>
+
+      <div className="pagination">
+        {cursor && <Link href={getTagPath(tag)}>First page</Link>}
+        {nextCursor && <Link href={`${getTagPath(tag)}?cursor=${encodeURIComponent(nextCursor)}`}>Next page</Link>}
+      </div>
+    </section>
+  )
+}
+
+export default TagPage
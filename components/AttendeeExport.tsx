@@ -0,0 +1,37 @@
+import { BOOKING_STATUSES } from "@/database/booking.model";
+
+/**
+ * Form that downloads the attendees of an event as CSV or JSON
+ * A plain GET form: the browser saves the file the export endpoint returns and stays on the page
+ */
+const AttendeeExport = ({ slug }: { slug: string }) => (
+  <form id="attendee-export" action={`/api/events/${slug}/attendees`} method="get">
+    <div className="range">
+      <div>
+        <label htmlFor="export-from">Booked from</label>
+        <input type="date" id="export-from" name="from" />
+      </div>
+      <div>
+        <label htmlFor="export-to">Booked until</label>
+        <input type="date" id="export-to" name="to" />
+      </div>
+    </div>
+
+    <div>
+      <label htmlFor="export-status">Status</label>
+      <select id="export-status" name="status" defaultValue="">
+        <option value="">All bookings</option>
+        {BOOKING_STATUSES.map((status) => (
+          <option key={status} value={status}>{status}</option>
+        ))}
+      </select>
+    </div>
+
+    <div className="formats">
+      <button type="submit" name="format" value="csv">Export CSV</button>
+      <button type="submit" name="format" value="json">Export JSON</button>
+    </div>
+  </form>
+)
+
+export default AttendeeExport
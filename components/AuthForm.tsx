@@ -0,0 +1,67 @@
+'use client';
+
+import Link from "next/link";
+import { useActionState } from "react";
+import { signIn, signUp, type AuthActionState } from "@/lib/actions/auth.actions";
+
+const initialState: AuthActionState = { status: 'idle' };
+
+interface Props {
+    mode: 'sign-in' | 'sign-up';
+    next?: string;
+}
+
+const AuthForm = ({ mode, next }: Props) => {
+    const isSignUp = mode === 'sign-up';
+    const [state, formAction, isPending] = useActionState(isSignUp ? signUp : signIn, initialState);
+    const nextQuery = next ? `?next=${encodeURIComponent(next)}` : '';
+
+  return (
+    <div id="auth-form">
+        <form action={formAction}>
+            {next && <input type="hidden" name="next" value={next} />}
+
+            {isSignUp && (
+                <div>
+                    <label htmlFor="name">Name</label>
+                    <input type="text" name="name" id="name" placeholder="Your name or organization" required autoComplete="name" />
+                </div>
+            )}
+
+            <div>
+                <label htmlFor="email">Email Address</label>
+                <input type="email" name="email" id="email" placeholder="Enter your email address" required autoComplete="email" />
+            </div>
+
+            <div>
+                <label htmlFor="password">Password</label>
+                <input
+                    type="password"
+                    name="password"
+                    id="password"
+                    placeholder={isSignUp ? 'At least 8 characters' : 'Enter your password'}
+                    required
+                    minLength={isSignUp ? 8 : undefined}
+                    autoComplete={isSignUp ? 'new-password' : 'current-password'}
+                />
+            </div>
+
+            {state.status === 'error' && (
+                <p className="error" role="alert">{state.message}</p>
+            )}
+
+            <button type="submit" disabled={isPending}>
+                {isPending ? 'Please wait...' : isSignUp ? 'Create account' : 'Sign in'}
+            </button>
+        </form>
+
+        {isSignUp ? (
+            <p className="text-sm">Already have an account? <Link href={`/sign-in${nextQuery}`}>Sign in</Link></p>
+        ) : (
+            <p className="text-sm">New organizer? <Link href={`/sign-up${nextQuery}`}>Create an account</Link></p>
+        )}
+    </div>
+  )
+}
+
+export default AuthForm
@@ -1,42 +1,78 @@
 'use client';
 
-import { useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useActionState, useState } from "react";
+import { createBooking, type BookingActionState } from "@/lib/actions/booking.actions";
 
-const BookEvent = () => {
-    const [email, setEmail] = useState('');
-    const [submitted, setSubmitted] = useState(false);
-
-    const handlesubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-
-        setTimeout(() => {
-            setSubmitted(true);
-        }, 1000)
-    }
+const initialState: BookingActionState = { status: 'idle' };
 
+const BookEvent = ({ eventId, isFull = false }: { eventId: string, isFull?: boolean }) => {
+    const [email, setEmail] = useState('');
+    const [state, formAction, isPending] = useActionState(createBooking, initialState);
 
   return (
     <div id="book-event">
-        {submitted ? (
-            <p className="text-sm">Thank you for signing up!</p>
-        ): (
-            <form onSubmit={handlesubmit}>
+        {state.status === 'success' ? (
+            <>
+                {state.bookingStatus === 'waitlisted' ? (
+                    <p className="text-sm">
+                        This event is full, so {state.email} has been added to the waitlist.
+                        We&apos;ll move you up as soon as a seat frees up.
+                    </p>
+                ) : (
+                    <p className="text-sm">
+                        Thank you for signing up! A spot is reserved for {state.email}.
+                        {state.bookingCount > 1 && ` You're one of ${state.bookingCount} people going.`}
+                    </p>
+                )}
+                {state.ticket && (
+                    <div className="ticket">
+                        {state.ticket.qrCode && (
+                            <Image src={state.ticket.qrCode} alt={`Ticket QR code ${state.ticket.code}`} width={160} height={160} unoptimized />
+                        )}
+                        <p className="code">{state.ticket.code}</p>
+                        <p className="text-xs text-light-200">
+                            {state.bookingStatus === 'waitlisted'
+                                ? 'Your ticket will be valid once your spot is confirmed.'
+                                : 'Show this code at the entrance to check in. We also emailed it to you.'}
+                        </p>
+                    </div>
+                )}
+                <Link href={state.cancelUrl} className="text-xs text-light-200 underline">
+                    Changed your mind? Cancel your booking
+                </Link>
+            </>
+        ) : state.status === 'already-booked' ? (
+            <p className="text-sm">{state.message} ({state.email})</p>
+        ) : (
+            <form action={formAction}>
+                <input type="hidden" name="eventId" value={eventId} />
                 <div>
                     <label htmlFor="email">Email Address</label>
-                    <input 
+                    <input
                         type="email"
+                        name="email"
                         value={email}
                         onChange={(e) => setEmail(e.target.value)}
                         id="email"
                         placeholder="Enter your email address"
+                        required
+                        disabled={isPending}
                     />
                 </div>
 
-                <button type="submit" className="button-submit">Submit</button>
+                {state.status === 'error' && (
+                    <p className="error" role="alert">{state.message}</p>
+                )}
+
+                <button type="submit" className="button-submit" disabled={isPending}>
+                    {isPending ? 'Booking...' : isFull ? 'Join waitlist' : 'Submit'}
+                </button>
             </form>
         )}
     </div>
   )
 }
 
-export default BookEvent
\ No newline at end of file
+export default BookEvent
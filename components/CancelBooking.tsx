@@ -0,0 +1,32 @@
+'use client';
+
+import { useActionState } from "react";
+import { cancelBooking, type CancelBookingState } from "@/lib/actions/booking.actions";
+
+const initialState: CancelBookingState = { status: 'idle' };
+
+const CancelBooking = ({ token }: { token: string }) => {
+    const [state, formAction, isPending] = useActionState(cancelBooking, initialState);
+
+  return (
+    <div id="cancel-booking">
+        {state.status === 'cancelled' ? (
+            <p className="text-sm">{state.message}</p>
+        ) : (
+            <form action={formAction}>
+                <input type="hidden" name="token" value={token} />
+
+                {state.status === 'error' && (
+                    <p className="error" role="alert">{state.message}</p>
+                )}
+
+                <button type="submit" disabled={isPending}>
+                    {isPending ? 'Cancelling...' : 'Confirm cancellation'}
+                </button>
+            </form>
+        )}
+    </div>
+  )
+}
+
+export default CancelBooking
@@ -0,0 +1,162 @@
+'use client';
+
+import { startTransition, useActionState, useEffect, useRef, useState } from "react";
+import { checkInBooking, type CheckInState } from "@/lib/actions/booking.actions";
+
+const initialState: CheckInState = { status: 'idle' };
+
+/**
+ * The Barcode Detection API, which the TypeScript DOM library does not include yet
+ * Available in Chromium browsers on Android, macOS and ChromeOS
+ */
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => {
+    detect(source: HTMLVideoElement): Promise<Array<{ rawValue: string }>>;
+};
+
+const formatTime = (date: Date) => new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Stops the camera stream held by a ref
+ */
+const stopStream = (streamRef: { current: MediaStream | null }) => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+};
+
+/**
+ * Check-in desk for staff: type a ticket code, use a handheld scanner (which types the code),
+ * or scan the QR image with the device camera where the browser supports it
+ */
+const CheckIn = ({ eventId, initialCode = '' }: { eventId: string, initialCode?: string }) => {
+    const [code, setCode] = useState(initialCode);
+    const [scanning, setScanning] = useState(false);
+    const [scanError, setScanError] = useState<string | null>(null);
+    const formRef = useRef<HTMLFormElement>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+
+    // The field is cleared on every submission so the next attendee can be scanned right away
+    const [state, formAction, isPending] = useActionState(async (prevState: CheckInState, formData: FormData) => {
+        setCode('');
+        return checkInBooking(prevState, formData);
+    }, initialState);
+
+    // Release the camera when staff leave the page
+    useEffect(() => () => stopStream(streamRef), []);
+
+    const submitCode = (value: string) => {
+        if (!formRef.current) return;
+
+        const formData = new FormData(formRef.current);
+        formData.set('code', value);
+        startTransition(() => formAction(formData));
+    };
+
+    const stopScanning = () => {
+        stopStream(streamRef);
+        setScanning(false);
+    };
+
+    const startScanning = async () => {
+        const BarcodeDetector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+        const video = videoRef.current;
+
+        if (!BarcodeDetector || !navigator.mediaDevices?.getUserMedia || !video) {
+            setScanError('This browser cannot scan with the camera. Type the code, or scan the QR code with your phone camera.');
+            return;
+        }
+
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+            streamRef.current = stream;
+            setScanError(null);
+            setScanning(true);
+
+            video.srcObject = stream;
+            await video.play();
+
+            const detector = new BarcodeDetector({ formats: ['qr_code'] });
+
+            const detect = async () => {
+                // Scanning was stopped, or restarted with another stream
+                if (streamRef.current !== stream) return;
+
+                const [barcode] = await detector.detect(video).catch(() => []);
+                if (barcode) {
+                    stopScanning();
+                    submitCode(barcode.rawValue);
+                    return;
+                }
+
+                requestAnimationFrame(detect);
+            };
+
+            requestAnimationFrame(detect);
+        } catch {
+            stopScanning();
+            setScanError('The camera could not be started. Check that this page may use it.');
+        }
+    };
+
+  return (
+    <div id="check-in-form">
+        {state.status === 'checked-in' && (
+            <div className="result accepted" role="status">
+                <p className="font-semibold">Checked in {state.email}</p>
+                <p className="text-sm">Ticket {state.code} at {formatTime(state.checkedInAt)}</p>
+            </div>
+        )}
+
+        {state.status === 'rejected' && (
+            <div className="result rejected" role="alert">
+                <p className="font-semibold">{state.message}</p>
+                {state.email && (
+                    <p className="text-sm">
+                        {state.email}{state.checkedInAt && ` checked in at ${formatTime(state.checkedInAt)}`}
+                    </p>
+                )}
+            </div>
+        )}
+
+        <form ref={formRef} action={formAction}>
+            <input type="hidden" name="eventId" value={eventId} />
+            <div className="flex-col-gap-2">
+                <label htmlFor="code">Ticket code</label>
+                <input
+                    type="text"
+                    name="code"
+                    id="code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="ABCDE-FGHJK"
+                    autoComplete="off"
+                    autoCapitalize="characters"
+                    spellCheck={false}
+                    autoFocus
+                    required
+                    disabled={isPending}
+                />
+            </div>
+
+            {state.status === 'error' && (
+                <p className="error" role="alert">{state.message}</p>
+            )}
+
+            <div className="actions">
+                <button type="submit" disabled={isPending}>
+                    {isPending ? 'Checking in...' : 'Check in'}
+                </button>
+                <button type="button" className="secondary" onClick={scanning ? stopScanning : startScanning}>
+                    {scanning ? 'Stop camera' : 'Scan with camera'}
+                </button>
+            </div>
+        </form>
+
+        {scanError && <p className="error" role="alert">{scanError}</p>}
+
+        <video ref={videoRef} hidden={!scanning} muted playsInline />
+    </div>
+  )
+}
+
+export default CheckIn
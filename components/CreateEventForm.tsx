@@ -0,0 +1,373 @@
+'use client';
+
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { EVENT_MODES, IMAGE_UPLOAD_LIMITS } from "@/lib/constants";
+import { DEFAULT_TIMEZONE } from "@/lib/datetime";
+import {
+    EVENT_FORM_STEPS,
+    toFormField,
+    validateEventForm,
+    type EventFormErrors,
+    type EventFormField,
+    type EventFormValues,
+} from "@/lib/event-form";
+import { normalizeTag } from "@/lib/tags";
+
+const initialValues: EventFormValues = {
+    title: '',
+    description: '',
+    overview: '',
+    image: null,
+    venue: '',
+    location: '',
+    date: '',
+    time: '',
+    endDate: '',
+    endTime: '',
+    timezone: '', // Empty until picked: the viewer's timezone is used
+    mode: '',
+    capacity: '',
+    audience: '',
+    agenda: [''],
+    organizer: '',
+    tags: [],
+};
+
+// The viewer's timezone is only known in the browser
+const subscribe = () => () => {};
+const getViewerTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+const getServerTimeZone = () => DEFAULT_TIMEZONE;
+
+const FieldError = ({ message }: { message?: string }) =>
+    message ? <p className="error" role="alert">{message}</p> : null;
+
+const CreateEventForm = () => {
+    const router = useRouter();
+    const [formValues, setValues] = useState<EventFormValues>(initialValues);
+    const viewerTimeZone = useSyncExternalStore(subscribe, getViewerTimeZone, getServerTimeZone);
+    const values = { ...formValues, timezone: formValues.timezone || viewerTimeZone };
+    const [errors, setErrors] = useState<EventFormErrors>({});
+    const [formError, setFormError] = useState<string | null>(null);
+    const [step, setStep] = useState(0);
+    const [tagInput, setTagInput] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+    // Release the object URL of the previous preview
+    useEffect(() => {
+        return () => {
+            if (previewUrl) URL.revokeObjectURL(previewUrl);
+        };
+    }, [previewUrl]);
+
+    const isLastStep = step === EVENT_FORM_STEPS.length - 1;
+
+    const setValue = <K extends EventFormField>(field: K, value: EventFormValues[K]) => {
+        setValues((current) => ({ ...current, [field]: value }));
+        setErrors((current) => ({ ...current, [field]: undefined }));
+    };
+
+    const inputProps = (field: Exclude<EventFormField, 'image' | 'agenda' | 'tags'>) => ({
+        id: field,
+        name: field,
+        value: values[field],
+        'aria-invalid': Boolean(errors[field]),
+        onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+            setValue(field, e.target.value as EventFormValues[typeof field]),
+    });
+
+    const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0] ?? null;
+        setValue('image', file);
+        setPreviewUrl(file ? URL.createObjectURL(file) : null);
+    };
+
+    const addTag = () => {
+        // Show the tag the way the server will store it
+        const tag = normalizeTag(tagInput);
+        if (tag && !values.tags.includes(tag)) {
+            setValue('tags', [...values.tags, tag]);
+        }
+        setTagInput('');
+    };
+
+    /**
+     * Validates the fields of one step; returns true when they are all valid
+     */
+    const validateStep = (index: number): boolean => {
+        const allErrors = validateEventForm(values);
+        const stepErrors = Object.fromEntries(
+            EVENT_FORM_STEPS[index].fields
+                .filter((field) => allErrors[field])
+                .map((field) => [field, allErrors[field]])
+        );
+        setErrors((current) => ({ ...current, ...stepErrors }));
+        return Object.keys(stepErrors).length === 0;
+    };
+
+    /**
+     * Shows errors next to their fields and opens the first step that has one
+     */
+    const showErrors = (fieldErrors: EventFormErrors) => {
+        setErrors(fieldErrors);
+        const firstStep = EVENT_FORM_STEPS.findIndex((s) => s.fields.some((field) => fieldErrors[field]));
+        if (firstStep !== -1) setStep(firstStep);
+    };
+
+    const handleNext = () => {
+        if (validateStep(step)) setStep(step + 1);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setFormError(null);
+
+        if (!isLastStep) {
+            handleNext();
+            return;
+        }
+
+        const clientErrors = validateEventForm(values);
+        if (Object.keys(clientErrors).length > 0) {
+            showErrors(clientErrors);
+            return;
+        }
+
+        const formData = new FormData();
+        for (const [field, value] of Object.entries(values)) {
+            if (field === 'agenda' || field === 'tags') {
+                formData.append(field, JSON.stringify((value as string[]).map((item) => item.trim()).filter(Boolean)));
+            } else if (value instanceof File) {
+                formData.append(field, value);
+            } else if (typeof value === 'string' && value.trim() !== '') {
+                formData.append(field, value.trim());
+            }
+        }
+
+        setIsSubmitting(true);
+        try {
+            const response = await fetch('/api/events', { method: 'POST', body: formData });
+            const data = await response.json();
+
+            if (response.ok) {
+                router.push(`/events/${data.event.slug}`);
+                return;
+            }
+
+            if (response.status === 401) {
+                router.push('/sign-in?next=/events/create');
+                return;
+            }
+
+            // Validation failures carry a message per schema path in details
+            const fieldErrors = data.code === 'VALIDATION_FAILED' ? data.details : undefined;
+            const serverErrors: EventFormErrors = {};
+            for (const [path, message] of Object.entries((fieldErrors ?? {}) as Record<string, string>)) {
+                const field = toFormField(path);
+                if (field) serverErrors[field] = message;
+            }
+
+            if (Object.keys(serverErrors).length > 0) {
+                showErrors(serverErrors);
+            } else {
+                setFormError(data.message ?? 'Event creation failed. Please try again.');
+            }
+        } catch {
+            setFormError('Could not reach the server. Please try again.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+  return (
+    <form id="create-event" onSubmit={handleSubmit} noValidate>
+        <ol className="steps">
+            {EVENT_FORM_STEPS.map((s, index) => (
+                <li key={s.title} className={index === step ? 'active' : index < step ? 'done' : ''}>
+                    {index + 1}. {s.title}
+                </li>
+            ))}
+        </ol>
+
+        {step === 0 && (
+            <fieldset>
+                <div>
+                    <label htmlFor="title">Title</label>
+                    <input type="text" placeholder="React Summit 2025" {...inputProps('title')} />
+                    <FieldError message={errors.title} />
+                </div>
+                <div>
+                    <label htmlFor="description">Description</label>
+                    <textarea rows={3} placeholder="A short summary shown at the top of the event page" {...inputProps('description')} />
+                    <FieldError message={errors.description} />
+                </div>
+                <div>
+                    <label htmlFor="overview">Overview</label>
+                    <textarea rows={5} placeholder="What attendees can expect" {...inputProps('overview')} />
+                    <FieldError message={errors.overview} />
+                </div>
+                <div>
+                    <label htmlFor="image">Event Image</label>
+                    <input type="file" id="image" name="image" accept={IMAGE_UPLOAD_LIMITS.contentTypes.join(',')} onChange={handleImageChange} aria-invalid={Boolean(errors.image)} />
+                    {previewUrl && (
+                        <Image src={previewUrl} alt="Event image preview" width={410} height={300} className="preview" unoptimized />
+                    )}
+                    <FieldError message={errors.image} />
+                </div>
+            </fieldset>
+        )}
+
+        {step === 1 && (
+            <fieldset>
+                <div className="row">
+                    <div>
+                        <label htmlFor="date">Start Date</label>
+                        <input type="date" {...inputProps('date')} />
+                        <FieldError message={errors.date} />
+                    </div>
+                    <div>
+                        <label htmlFor="time">Start Time</label>
+                        <input type="time" {...inputProps('time')} />
+                        <FieldError message={errors.time} />
+                    </div>
+                </div>
+                <div className="row">
+                    <div>
+                        <label htmlFor="endDate">End Date (optional)</label>
+                        <input type="date" {...inputProps('endDate')} />
+                        <FieldError message={errors.endDate} />
+                    </div>
+                    <div>
+                        <label htmlFor="endTime">End Time (optional)</label>
+                        <input type="time" {...inputProps('endTime')} />
+                        <FieldError message={errors.endTime} />
+                    </div>
+                </div>
+                <div>
+                    <label htmlFor="timezone">Timezone</label>
+                    <select {...inputProps('timezone')}>
+                        {Intl.supportedValuesOf('timeZone').map((timeZone) => (
+                            <option key={timeZone} value={timeZone}>{timeZone}</option>
+                        ))}
+                    </select>
+                    <FieldError message={errors.timezone} />
+                </div>
+                <div>
+                    <label htmlFor="venue">Venue</label>
+                    <input type="text" placeholder="Amsterdam RAI" {...inputProps('venue')} />
+                    <FieldError message={errors.venue} />
+                </div>
+                <div>
+                    <label htmlFor="location">Location</label>
+                    <input type="text" placeholder="Amsterdam, Netherlands" {...inputProps('location')} />
+                    <FieldError message={errors.location} />
+                </div>
+                <div className="row">
+                    <div>
+                        <label htmlFor="mode">Mode</label>
+                        <select {...inputProps('mode')}>
+                            <option value="" disabled>Select a mode</option>
+                            {EVENT_MODES.map((mode) => (
+                                <option key={mode} value={mode}>{mode}</option>
+                            ))}
+                        </select>
+                        <FieldError message={errors.mode} />
+                    </div>
+                    <div>
+                        <label htmlFor="capacity">Capacity (optional)</label>
+                        <input type="number" min={1} step={1} placeholder="Unlimited" {...inputProps('capacity')} />
+                        <FieldError message={errors.capacity} />
+                    </div>
+                </div>
+            </fieldset>
+        )}
+
+        {step === 2 && (
+            <fieldset>
+                <div>
+                    <label htmlFor="audience">Audience</label>
+                    <input type="text" placeholder="Frontend developers, tech leads" {...inputProps('audience')} />
+                    <FieldError message={errors.audience} />
+                </div>
+                <div>
+                    <label htmlFor="organizer">Organizer</label>
+                    <textarea rows={3} placeholder="Who is running this event" {...inputProps('organizer')} />
+                    <FieldError message={errors.organizer} />
+                </div>
+                <div>
+                    <label htmlFor="agenda-0">Agenda</label>
+                    <ul className="agenda-editor">
+                        {values.agenda.map((item, index) => (
+                            <li key={index}>
+                                <input
+                                    type="text"
+                                    id={`agenda-${index}`}
+                                    value={item}
+                                    placeholder="09:00 AM - 10:00 AM | Keynote"
+                                    onChange={(e) => setValue('agenda', values.agenda.map((current, i) => (i === index ? e.target.value : current)))}
+                                />
+                                {values.agenda.length > 1 && (
+                                    <button type="button" className="remove" aria-label={`Remove agenda item ${index + 1}`}
+                                        onClick={() => setValue('agenda', values.agenda.filter((_, i) => i !== index))}>
+                                        ×
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                    <button type="button" className="secondary" onClick={() => setValue('agenda', [...values.agenda, ''])}>
+                        Add agenda item
+                    </button>
+                    <FieldError message={errors.agenda} />
+                </div>
+                <div>
+                    <label htmlFor="tag-input">Tags</label>
+                    <div className="tag-editor">
+                        {values.tags.map((tag) => (
+                            <span className="pill" key={tag}>
+                                {tag}
+                                <button type="button" aria-label={`Remove tag ${tag}`}
+                                    onClick={() => setValue('tags', values.tags.filter((existing) => existing !== tag))}>
+                                    ×
+                                </button>
+                            </span>
+                        ))}
+                        <input
+                            type="text"
+                            id="tag-input"
+                            value={tagInput}
+                            placeholder="Type a tag and press Enter"
+                            onChange={(e) => setTagInput(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' || e.key === ',') {
+                                    e.preventDefault();
+                                    addTag();
+                                }
+                            }}
+                            onBlur={addTag}
+                        />
+                    </div>
+                    <FieldError message={errors.tags} />
+                </div>
+            </fieldset>
+        )}
+
+        {formError && <p className="error" role="alert">{formError}</p>}
+
+        <div className="actions">
+            {step > 0 && (
+                <button type="button" className="secondary" onClick={() => setStep(step - 1)} disabled={isSubmitting}>
+                    Back
+                </button>
+            )}
+            <button type="submit" disabled={isSubmitting}>
+                {isLastStep ? (isSubmitting ? 'Creating...' : 'Create Event') : 'Next'}
+            </button>
+        </div>
+    </form>
+  )
+}
+
+export default CreateEventForm
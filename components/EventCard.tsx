@@ -1,5 +1,7 @@
 import Link from "next/link";
 import Image from "next/image";
+import LocalTime from "./LocalTime";
+import { formatEventDateRange, formatEventTimeRange } from "@/lib/datetime";
 
 interface Props {
     title: string;
@@ -8,10 +10,14 @@ interface Props {
     location: string;
     date: string;
     time: string;
+    timezone?: string;
+    startsAt?: string | Date;
+    endsAt?: string | Date;
+    bookingCount?: number;
 }
 
 
-const EventCard = ({title, image, slug, location, date, time}: Props) => {
+const EventCard = ({title, image, slug, location, date, time, timezone, startsAt, endsAt, bookingCount}: Props) => {
   return (
     <Link href={`/events/${slug}`} id="event-card" > 
         <Image
@@ -21,21 +27,27 @@ const EventCard = ({title, image, slug, location, date, time}: Props) => {
             height={300}
             className="poster"
         />
-        <div className="flex flex-row gap-2">
+        <div className="flex flex-row gap-2 items-center">
           <Image src="/icons/pin.svg" alt="location" width={14} height={14} />
           <p>{location}</p>
+          {bookingCount !== undefined && bookingCount > 0 && (
+            <span className="going">{bookingCount} going</span>
+          )}
         </div>
         <p className="title">{title}</p>
         <div className="datetime">
           <div>
-            <Image src="/icons/calendar.svg" alt="date" width={14} height={14} />§
-            <p>{date}</p>
+            <Image src="/icons/calendar.svg" alt="date" width={14} height={14} />
+            <p>{startsAt ? formatEventDateRange(startsAt, endsAt, timezone) : date}</p>
           </div>
           <div>
             <Image src="/icons/clock.svg" alt="time" width={14} height={14} />
-            <p>{time}</p>
+            <p>{startsAt ? formatEventTimeRange(startsAt, endsAt, timezone) : time}</p>
           </div>
         </div>
+        {startsAt && timezone && (
+          <LocalTime startsAt={startsAt} endsAt={endsAt} timezone={timezone} className="local-time" />
+        )}
     </Link>
   )
 }
@@ -0,0 +1,20 @@
+import type { SearchSnippet } from "@/lib/search";
+
+/**
+ * Renders a search snippet with its matched terms wrapped in <mark>
+ */
+const Highlight = ({ text, highlights }: Pick<SearchSnippet, 'text' | 'highlights'>) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  for (const [start, end] of highlights) {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start}>{text.slice(start, end)}</mark>);
+    cursor = end;
+  }
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
+
+export default Highlight
@@ -0,0 +1,36 @@
+'use client';
+
+import { useSyncExternalStore } from "react";
+import { formatEventDateRange, formatEventTimeRange } from "@/lib/datetime";
+
+// The viewer's timezone never changes while the page is open
+const subscribe = () => () => {};
+const getViewerTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+const getServerTimeZone = () => null;
+
+interface Props {
+    startsAt: string | Date;
+    endsAt?: string | Date | null;
+    timezone: string;
+    className?: string;
+}
+
+/**
+ * Shows an event's start (and end, when known) in the viewer's local timezone
+ * Renders nothing on the server and when the viewer is already in the event's timezone
+ */
+const LocalTime = ({ startsAt, endsAt, timezone, className }: Props) => {
+    const viewerTimeZone = useSyncExternalStore(subscribe, getViewerTimeZone, getServerTimeZone);
+
+    if (!viewerTimeZone || viewerTimeZone === timezone) {
+        return null;
+    }
+
+  return (
+    <p className={className}>
+        Your time: {formatEventDateRange(startsAt, endsAt, viewerTimeZone)}, {formatEventTimeRange(startsAt, endsAt, viewerTimeZone)}
+    </p>
+  )
+}
+
+export default LocalTime
@@ -0,0 +1,26 @@
+import Form from "next/form";
+import Image from "next/image";
+
+/**
+ * Navbar search box
+ * A plain GET form to /search, so it also works without JavaScript
+ */
+const SearchBox = ({ defaultValue }: { defaultValue?: string }) => {
+  return (
+    <Form action="/search" role="search" className="search-box">
+        <Image src="/icons/search.svg" alt="" width={16} height={16} />
+        <input
+            type="search"
+            name="q"
+            placeholder="Search events"
+            aria-label="Search events"
+            defaultValue={defaultValue}
+            minLength={2}
+            maxLength={100}
+            required
+        />
+    </Form>
+  )
+}
+
+export default SearchBox
@@ -0,0 +1,23 @@
+import Link from "next/link";
+import { getCurrentUser } from "@/lib/auth";
+import { signOut } from "@/lib/actions/auth.actions";
+
+const UserMenu = async () => {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return <Link href="/sign-in">Sign In</Link>;
+  }
+
+  return (
+    <div className="user-menu">
+      <span className="text-light-200">{user.name}</span>
+      <a href="/api/attendees?format=csv" download title="Bookings of all your events, as CSV">Export attendees</a>
+      <form action={signOut}>
+        <button type="submit">Sign Out</button>
+      </form>
+    </div>
+  )
+}
+
+export default UserMenu
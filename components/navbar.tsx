@@ -1,5 +1,8 @@
 import Link from "next/link";
 import Image from "next/image";
+import { Suspense } from "react";
+import UserMenu from "./UserMenu";
+import SearchBox from "./SearchBox";
 
 
 const Navbar = () => {
@@ -10,10 +13,14 @@ const Navbar = () => {
                 <Image src="/icons/logo.png" alt="logo" width={24} height={24}></Image>
                 <p>DevEvent</p>
             </Link>
+            <SearchBox />
             <ul>
                 <Link href="/">Home</Link>
-                <Link href="/">Events</Link>
-                <Link href="/">Create Event</Link>
+                <Link href="/events">Events</Link>
+                <Link href="/events/create">Create Event</Link>
+                <Suspense fallback={null}>
+                    <UserMenu />
+                </Suspense>
             </ul>
         </nav>
     </header>
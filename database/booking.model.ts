@@ -1,6 +1,30 @@
+import { randomInt } from 'crypto';
 import mongoose, { Schema, Model, Document, Types } from 'mongoose';
 import type { IEvent } from './event.model';
 
+/**
+ * Booking lifecycle states
+ * - confirmed: holds one of the event's seats
+ * - waitlisted: waiting for a seat to free up
+ * - cancelled: released by the attendee
+ */
+export const BOOKING_STATUSES = ['confirmed', 'waitlisted', 'cancelled'] as const;
+export type BookingStatus = (typeof BOOKING_STATUSES)[number];
+
+/**
+ * Characters of ticket codes: uppercase letters and digits without the look-alikes 0/O and 1/I
+ * so a code can be read out and typed without mistakes
+ */
+export const TICKET_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const TICKET_CODE_LENGTH = 10;
+
+/**
+ * Generates a random ticket code (50 bits of randomness)
+ */
+export function generateTicketCode(): string {
+  return Array.from({ length: TICKET_CODE_LENGTH }, () => TICKET_CODE_ALPHABET[randomInt(TICKET_CODE_ALPHABET.length)]).join('');
+}
+
 /**
  * Interface for Booking document
  * Defines the structure and types for Booking documents in MongoDB
@@ -8,6 +32,10 @@ import type { IEvent } from './event.model';
 export interface IBooking extends Document {
   eventId: Types.ObjectId;
   email: string;
+  status: BookingStatus;
+  cancelledAt?: Date | null;
+  ticketCode?: string | null; // Missing on bookings made before tickets existed
+  checkedInAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -42,6 +70,29 @@ const bookingSchema = new Schema<IBooking>(
         message: 'Please provide a valid email address',
       },
     },
+    status: {
+      type: String,
+      enum: {
+        values: BOOKING_STATUSES,
+        message: 'Status must be one of: confirmed, waitlisted, cancelled',
+      },
+      default: 'confirmed',
+      index: true,
+    },
+    cancelledAt: {
+      type: Date,
+      default: null,
+    },
+    // Set by the pre-save hook rather than a default: defaults also apply when
+    // bookings made before tickets existed are read, which would show a new code each time
+    ticketCode: {
+      type: String,
+      immutable: true,
+    },
+    checkedInAt: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt
@@ -66,9 +117,35 @@ bookingSchema.pre<IBooking>('save', async function () {
   }
 });
 
+/**
+ * Pre-save hook: Gives new bookings their ticket code
+ */
+bookingSchema.pre<IBooking>('save', function () {
+  if (this.isNew && !this.ticketCode) {
+    this.ticketCode = generateTicketCode();
+  }
+});
+
 // Create index on eventId for faster queries
 bookingSchema.index({ eventId: 1 });
 
+// Prevent the same email from holding two active bookings for the same event
+// Cancelled bookings are excluded so the attendee can book again later
+bookingSchema.index(
+  { eventId: 1, email: 1 },
+  { unique: true, partialFilterExpression: { status: { $in: ['confirmed', 'waitlisted'] } } }
+);
+
+// Supports promoting the oldest waitlisted booking
+bookingSchema.index({ eventId: 1, status: 1, createdAt: 1 });
+
+// Ticket codes identify a booking at check-in
+// Sparse because bookings made before tickets existed have no code
+bookingSchema.index({ ticketCode: 1 }, { unique: true, sparse: true });
+
+// Supports attendee exports, which list an event's bookings in booking order
+bookingSchema.index({ eventId: 1, createdAt: 1, _id: 1 });
+
 /**
  * Booking model
  * Exported for use throughout the application
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Types } from 'mongoose';
+import { Event } from '.';
+
+/**
+ * Schedule derivation of the pre-validate hook; validate() runs it without a database
+ */
+
+const fields = {
+  title: 'Node Summit',
+  description: 'Two days of Node.js talks',
+  overview: 'Talks and workshops',
+  image: 'https://cdn.test/node.png',
+  venue: 'Hall A',
+  location: 'Berlin',
+  date: '2026-05-01',
+  time: '10:00',
+  timezone: 'UTC',
+  mode: 'offline',
+  audience: 'Developers',
+  agenda: ['Keynote'],
+  organizer: 'Node Org',
+  tags: ['node'],
+};
+
+/**
+ * An event as read back from the database after it was created with the given fields
+ */
+async function savedEvent(extra: Record<string, unknown> = {}) {
+  const created = new Event({ ...fields, ...extra });
+  await created.validate();
+  return Event.hydrate({ ...created.toObject(), _id: new Types.ObjectId() });
+}
+
+describe('event schedule', () => {
+  it('ends two hours after the start when no end is given, without saving that end', async () => {
+    const event = new Event(fields);
+    await event.validate();
+
+    expect(event.startsAt.toISOString()).toBe('2026-05-01T10:00:00.000Z');
+    expect(event.endsAt.toISOString()).toBe('2026-05-01T12:00:00.000Z');
+    expect(event.endDate).toBeUndefined();
+    expect(event.endTime).toBeUndefined();
+  });
+
+  it.each([
+    ['date', { date: '2026-06-01' }, '2026-06-01T12:00:00.000Z'],
+    ['time', { time: '13:00' }, '2026-05-01T15:00:00.000Z'],
+  ])('moves the default end when the %s of an event without an end changes', async (_, change, endsAt) => {
+    const event = await savedEvent();
+
+    event.set(change);
+    await event.validate();
+
+    expect(event.endsAt.toISOString()).toBe(endsAt);
+  });
+
+  it('moves a default end saved by an earlier version as if it were set', async () => {
+    const event = await savedEvent({ endDate: '2026-05-01', endTime: '12:00' });
+
+    event.set({ date: '2026-06-01' });
+    await event.validate();
+
+    expect(event.endsAt.toISOString()).toBe('2026-06-01T12:00:00.000Z');
+    expect(event.endDate).toBeUndefined();
+  });
+
+  it('keeps an end set by the organizer, and rejects a start moved past it', async () => {
+    const event = await savedEvent({ endDate: '2026-05-02', endTime: '18:00' });
+
+    event.set({ time: '09:00' });
+    await event.validate();
+    expect(event.endsAt.toISOString()).toBe('2026-05-02T18:00:00.000Z');
+
+    event.set({ date: '2026-05-03' });
+    await expect(event.validate()).rejects.toThrow('Event end must be after its start');
+  });
+
+  it('ends on the start day when only an end time is given', async () => {
+    const event = await savedEvent({ endTime: '17:00' });
+
+    event.set({ date: '2026-06-01' });
+    await event.validate();
+
+    expect(event.endsAt.toISOString()).toBe('2026-06-01T17:00:00.000Z');
+  });
+});
@@ -1,4 +1,7 @@
-import mongoose, { Schema, Model, Document } from 'mongoose';
+import mongoose, { Schema, Model, Document, Types } from 'mongoose';
+import { EVENT_MODES } from '@/lib/constants';
+import { DEFAULT_EVENT_DURATION_MS, DEFAULT_TIMEZONE, isValidDate, isValidTimeZone, zonedTimeToUtc } from '@/lib/datetime';
+import { normalizeTags } from '@/lib/tags';
 
 /**
  * Interface for Event document
@@ -7,18 +10,28 @@ import mongoose, { Schema, Model, Document } from 'mongoose';
 export interface IEvent extends Document {
   title: string;
   slug: string;
+  previousSlugs: string[]; // Slugs used before the title was edited, kept for redirects
   description: string;
   overview: string;
   image: string;
+  imageKey?: string | null; // Storage key of an uploaded image, used to delete it; unset for external image URLs
   venue: string;
   location: string;
-  date: string; // ISO format date string
-  time: string; // Normalized time string
+  date: string; // Wall-clock date in the event's timezone (YYYY-MM-DD)
+  time: string; // Wall-clock time in the event's timezone (HH:MM)
+  timezone: string; // IANA timezone, e.g. 'Europe/Amsterdam'
+  startsAt: Date; // UTC start instant, derived from date, time and timezone
+  endDate?: string; // Wall-clock end date in the event's timezone (YYYY-MM-DD); the start date when not set
+  endTime?: string; // Wall-clock end time in the event's timezone (HH:MM); the start time when not set
+  endsAt: Date; // UTC end instant, derived from endDate, endTime and timezone
   mode: string; // e.g., 'online', 'offline', 'hybrid'
   audience: string;
   agenda: string[];
   organizer: string;
   tags: string[];
+  owner?: Types.ObjectId; // Organizer who created the event; only they can edit or delete it
+  capacity?: number | null; // Maximum confirmed bookings; unlimited when not set
+  seatsTaken: number; // Confirmed bookings, maintained atomically by the booking flow
   createdAt: Date;
   updatedAt: Date;
 }
@@ -44,6 +57,11 @@ const eventSchema = new Schema<IEvent>(
       trim: true,
       lowercase: true,
     },
+    previousSlugs: {
+      type: [String],
+      default: [],
+      index: true,
+    },
     description: {
       type: String,
       required: [true, 'Description is required'],
@@ -71,6 +89,10 @@ const eventSchema = new Schema<IEvent>(
         message: 'Image URL cannot be empty',
       },
     },
+    imageKey: {
+      type: String,
+      default: null,
+    },
     venue: {
       type: String,
       required: [true, 'Venue is required'],
@@ -93,19 +115,60 @@ const eventSchema = new Schema<IEvent>(
       type: String,
       required: [true, 'Date is required'],
       trim: true,
+      validate: {
+        validator: isValidDate,
+        message: 'Date must be a valid date (YYYY-MM-DD)',
+      },
     },
     time: {
       type: String,
       required: [true, 'Time is required'],
       trim: true,
+      validate: {
+        validator: (value: string) => HOUR_MINUTE_PATTERN.test(value),
+        message: 'Time must be in HH:MM format (00:00-23:59)',
+      },
+    },
+    timezone: {
+      type: String,
+      default: DEFAULT_TIMEZONE,
+      trim: true,
+      validate: {
+        validator: (value: string) => isValidTimeZone(value),
+        message: (props: { value: string }) => `${props.value} is not a valid IANA timezone`,
+      },
+    },
+    startsAt: {
+      type: Date,
+      index: true,
+    },
+    endDate: {
+      type: String,
+      trim: true,
+      validate: {
+        validator: (value: string) => !value || isValidDate(value),
+        message: 'End date must be a valid date (YYYY-MM-DD)',
+      },
+    },
+    endTime: {
+      type: String,
+      trim: true,
+      validate: {
+        validator: (value: string) => !value || HOUR_MINUTE_PATTERN.test(value),
+        message: 'End time must be in HH:MM format (00:00-23:59)',
+      },
+    },
+    endsAt: {
+      type: Date,
+      index: true,
     },
     mode: {
       type: String,
       required: [true, 'Mode is required'],
       trim: true,
       enum: {
-        values: ['online', 'offline', 'hybrid'],
-        message: 'Mode must be one of: online, offline, hybrid',
+        values: EVENT_MODES,
+        message: `Mode must be one of: ${EVENT_MODES.join(', ')}`,
       },
     },
     audience: {
@@ -142,17 +205,41 @@ const eventSchema = new Schema<IEvent>(
         message: 'Tags must be a non-empty array',
       },
     },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      index: true,
+    },
+    capacity: {
+      type: Number,
+      default: null,
+      min: [1, 'Capacity must be at least 1'],
+      validate: {
+        validator: (value: number | null) => value === null || Number.isInteger(value),
+        message: 'Capacity must be a whole number',
+      },
+    },
+    seatsTaken: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt
   }
 );
 
+/**
+ * Paths under /events and /api/events that are pages or routes of their own and cannot be used as event slugs
+ */
+export const RESERVED_SLUGS = ['create', 'archive', 'search', 'facets', 'import', 'export'];
+
 /**
  * Generates a URL-friendly slug from a string
  * Converts to lowercase, replaces spaces/special chars with hyphens
  */
-function generateSlug(text: string): string {
+export function generateSlug(text: string): string {
   return text
     .toLowerCase()
     .trim()
@@ -162,15 +249,34 @@ function generateSlug(text: string): string {
 }
 
 /**
- * Normalizes date string to ISO format
- * Accepts various date formats and converts to ISO string
+ * Stored time format: 24-hour HH:MM
+ */
+const HOUR_MINUTE_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Normalizes date string to YYYY-MM-DD format
+ * Accepts various date formats; the calendar day is kept as written,
+ * independent of the server's timezone
+ * Unparseable input is returned trimmed, for the date validator to reject
  */
 function normalizeDate(dateString: string): string {
-  const date = new Date(dateString);
+  const trimmed = dateString.trim();
+
+  // Already YYYY-MM-DD (optionally followed by a time): keep the calendar day as-is
+  const isoMatch = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (isoMatch) {
+    return `${isoMatch[1]}-${isoMatch[2]}-${isoMatch[3]}`;
+  }
+
+  const date = new Date(trimmed);
   if (isNaN(date.getTime())) {
-    throw new Error(`Invalid date format: ${dateString}`);
+    return trimmed;
   }
-  return date.toISOString().split('T')[0]; // Returns YYYY-MM-DD format
+
+  // Other formats are parsed in server-local time, so read the local calendar day back
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
 }
 
 /**
@@ -204,21 +310,104 @@ function normalizeTime(timeString: string): string {
 }
 
 /**
- * Pre-save hook: Generates slug from title if title changed
- * Normalizes date to ISO format and time to consistent format
+ * Pre-validate hook: Normalizes tags so "React", " react " and "ReactJS" are stored as one tag
+ * Runs before validation so a list of blank tags is still rejected as empty
+ */
+eventSchema.pre<IEvent>('validate', function () {
+  if (this.isModified('tags') || this.isNew) {
+    this.tags = normalizeTags(this.tags ?? []);
+  }
+});
+
+/**
+ * Pre-validate hook: Normalizes date to ISO format and time to consistent format
+ * Computes the UTC start and end instants and checks that the event ends after it starts
+ * Runs on validate() as well as save(), so an event can be fully checked without writing it
+ */
+eventSchema.pre<IEvent>('validate', function () {
+  const event = this as IEvent;
+
+  // Normalize date to ISO format
+  if (event.date && (event.isModified('date') || event.isNew)) {
+    event.date = normalizeDate(event.date);
+  }
+
+  // Normalize time to consistent format
+  if (event.time && (event.isModified('time') || event.isNew)) {
+    event.time = normalizeTime(event.time);
+  }
+
+  const scheduleChanged = ['date', 'time', 'timezone', 'endDate', 'endTime'].some((path) =>
+    event.isModified(path)
+  );
+
+  // Missing or malformed parts are left for the field validators to report
+  const canDerive =
+    isValidDate(event.date ?? '') &&
+    HOUR_MINUTE_PATTERN.test(event.time ?? '') &&
+    (!event.endDate || isValidDate(normalizeDate(event.endDate))) &&
+    (!event.endTime || HOUR_MINUTE_PATTERN.test(normalizeTime(event.endTime))) &&
+    isValidTimeZone(event.timezone);
+
+  if ((event.isNew || scheduleChanged) && canDerive) {
+    // Earlier versions saved the default end as if the organizer had set it; such an end
+    // (exactly the default duration after the current start) is dropped so it follows the new start
+    const hasStoredDefaultEnd =
+      !event.isNew &&
+      !event.isModified('endDate') &&
+      !event.isModified('endTime') &&
+      event.startsAt?.getTime() + DEFAULT_EVENT_DURATION_MS === event.endsAt?.getTime();
+    if (hasStoredDefaultEnd) {
+      event.set({ endDate: undefined, endTime: undefined });
+    }
+
+    // Derive the UTC start instant from the wall-clock date/time in the event's timezone
+    event.startsAt = zonedTimeToUtc(event.date, event.time, event.timezone);
+
+    // Only the end the organizer set is saved, so moving the start moves a default end with it:
+    // a missing end date means the start day, a missing end time the start time,
+    // and no end at all DEFAULT_EVENT_DURATION_MS after the start
+    if (event.endDate) event.endDate = normalizeDate(event.endDate);
+    if (event.endTime) event.endTime = normalizeTime(event.endTime);
+
+    event.endsAt = event.endDate || event.endTime
+      ? zonedTimeToUtc(event.endDate || event.date, event.endTime || event.time, event.timezone)
+      : new Date(event.startsAt.getTime() + DEFAULT_EVENT_DURATION_MS);
+
+    if (event.endsAt <= event.startsAt) {
+      const error = new mongoose.Error.ValidationError();
+      error.addError(
+        'endsAt',
+        new mongoose.Error.ValidatorError({
+          path: 'endsAt',
+          message: 'Event end must be after its start',
+          value: event.endsAt,
+        })
+      );
+      throw error;
+    }
+  }
+});
+
+/**
+ * Pre-save hook: Generates slug from title if title changed, keeping the old slug in previousSlugs
  */
 eventSchema.pre<IEvent>('save', async function () {
   const event = this;
 
   // Generate slug only if title is new or has changed
+  // A new event may come with its own slug (e.g. from a bulk import), which is used instead of the title
   if (event.isNew || event.isModified('title')) {
-    let baseSlug = generateSlug(event.title);
-    let slug = baseSlug;
+    let baseSlug = generateSlug(event.isNew && event.slug ? event.slug : event.title);
     let counter = 1;
+    let slug = RESERVED_SLUGS.includes(baseSlug) ? `${baseSlug}-${counter++}` : baseSlug;
 
     // Ensure slug uniqueness by appending a number if needed
+    // Slugs kept in another event's history are taken too, so their redirects keep working
     while (true) {
-      const existingEvent = await mongoose.model<IEvent>('Event').findOne({ slug });
+      const existingEvent = await mongoose
+        .model<IEvent>('Event')
+        .findOne({ $or: [{ slug }, { previousSlugs: slug }] });
       if (!existingEvent || existingEvent._id.toString() === event._id.toString()) {
         break;
       }
@@ -226,19 +415,33 @@ eventSchema.pre<IEvent>('save', async function () {
       counter++;
     }
 
+    // Keep the old slug so links to it can redirect to the new one
+    if (!event.isNew && event.slug && event.slug !== slug) {
+      event.previousSlugs = [...event.previousSlugs.filter((previous) => previous !== slug), event.slug];
+    }
+
     event.slug = slug;
   }
+});
 
-  // Normalize date to ISO format
-  if (event.isModified('date') || event.isNew) {
-    event.date = normalizeDate(event.date);
-  }
+// Support the listing filters and cursor pagination of GET /api/events
+// Each sort index ends with _id, the cursor tie-breaker
+eventSchema.index({ createdAt: -1, _id: -1 });
+eventSchema.index({ startsAt: 1, _id: 1 });
+eventSchema.index({ mode: 1, startsAt: 1, _id: 1 });
+eventSchema.index({ tags: 1, startsAt: 1, _id: 1 });
+eventSchema.index({ location: 1 });
+eventSchema.index({ organizer: 1 });
 
-  // Normalize time to consistent format
-  if (event.isModified('time') || event.isNew) {
-    event.time = normalizeTime(event.time);
+// Keyword search across the event's text, see lib/search.ts
+// Weights rank a match in the title above one deep in the overview
+eventSchema.index(
+  { title: 'text', tags: 'text', description: 'text', organizer: 'text', overview: 'text' },
+  {
+    name: 'event_text_search',
+    weights: { title: 10, tags: 6, description: 4, organizer: 2, overview: 1 },
   }
-});
+);
 
 /**
  * Event model
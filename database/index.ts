@@ -3,8 +3,18 @@
  * Central export point for all Mongoose models
  * 
  * Usage:
- *   import { Event, Booking } from '@/database';
+ *   import { Event, Booking, User } from '@/database';
  */
 
-export { Event, type IEvent } from './event.model';
-export { Booking, type IBooking } from './booking.model';
+export { Event, RESERVED_SLUGS, generateSlug, type IEvent } from './event.model';
+export {
+  BOOKING_STATUSES,
+  Booking,
+  TICKET_CODE_ALPHABET,
+  TICKET_CODE_LENGTH,
+  generateTicketCode,
+  type IBooking,
+  type BookingStatus,
+} from './booking.model';
+export { User, type IUser } from './user.model';
+export { Session, type ISession } from './session.model';
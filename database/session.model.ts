@@ -0,0 +1,50 @@
+import mongoose, { Schema, Model, Document, Types } from 'mongoose';
+
+/**
+ * Interface for Session document
+ * Only a SHA-256 hash of the session token is stored; the token itself lives in the cookie
+ */
+export interface ISession extends Document {
+  userId: Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Session schema definition
+ * References User model
+ */
+const sessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true, // Index for signing out all sessions of a user
+    },
+    tokenHash: {
+      type: String,
+      required: [true, 'Token hash is required'],
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry is required'],
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// TTL index: MongoDB removes sessions once they expire
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Session model
+ * Exported for use throughout the application
+ */
+export const Session: Model<ISession> =
+  mongoose.models.Session || mongoose.model<ISession>('Session', sessionSchema);
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Model, Document } from 'mongoose';
+
+/**
+ * Interface for User document
+ * Users are event organizers; they sign in with email and password
+ */
+export interface IUser extends Document {
+  name: string;
+  email: string;
+  passwordHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Email validation regex pattern
+ * Validates standard email format
+ */
+const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * User schema definition
+ * The password hash is excluded from queries unless explicitly selected
+ */
+const userSchema = new Schema<IUser>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      validate: {
+        validator: (value: string) => value.trim().length > 0,
+        message: 'Name cannot be empty',
+      },
+    },
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      unique: true,
+      trim: true,
+      lowercase: true,
+      validate: {
+        validator: (value: string) => emailRegex.test(value),
+        message: 'Please provide a valid email address',
+      },
+    },
+    passwordHash: {
+      type: String,
+      required: [true, 'Password is required'],
+      select: false,
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+/**
+ * User model
+ * Exported for use throughout the application
+ * Note: Unique index on email is automatically created via unique: true in schema
+ */
+export const User: Model<IUser> =
+  mongoose.models.User || mongoose.model<IUser>('User', userSchema);
@@ -0,0 +1,12 @@
+/**
+ * Runs once when the server starts
+ * Creates the mail transport up front, so a missing mail configuration stops a production server
+ * at startup instead of failing (or silently logging) the first booking email
+ */
+export async function register() {
+  // next build also loads this file; the mail settings only matter to the running server
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.NEXT_PHASE !== 'phase-production-build') {
+    const { getMailTransport } = await import('./lib/mail');
+    getMailTransport();
+  }
+}
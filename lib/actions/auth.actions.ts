@@ -0,0 +1,79 @@
+'use server';
+
+import mongoose from "mongoose";
+import { redirect } from "next/navigation";
+import { AuthError, authenticate, createSession, destroySession, registerUser, safeRedirectPath } from "../auth";
+
+/**
+ * Result of a sign-up or sign-in attempt, returned to the AuthForm
+ */
+export type AuthActionState =
+    | { status: 'idle' }
+    | { status: 'error'; message: string };
+
+/**
+ * Creates an organizer account and signs it in
+ * Used as the action of the sign-up form via useActionState
+ */
+export const signUp = async (prevState: AuthActionState, formData: FormData): Promise<AuthActionState> => {
+    const name = formData.get('name');
+    const email = formData.get('email');
+    const password = formData.get('password');
+
+    if (typeof name !== 'string' || typeof email !== 'string' || typeof password !== 'string') {
+        return { status: 'error', message: 'Please fill in all fields.' };
+    }
+
+    try {
+        const user = await registerUser({ name, email, password });
+        await createSession(user._id);
+    } catch (e) {
+        if (e instanceof AuthError) {
+            return { status: 'error', message: e.message };
+        }
+
+        if (e instanceof mongoose.Error.ValidationError) {
+            return { status: 'error', message: Object.values(e.errors)[0]?.message ?? 'Invalid details.' };
+        }
+
+        console.error('Sign-up failed:', e);
+        return { status: 'error', message: 'Something went wrong. Please try again.' };
+    }
+
+    redirect(safeRedirectPath(formData.get('next')));
+}
+
+/**
+ * Signs an organizer in with email and password
+ * Used as the action of the sign-in form via useActionState
+ */
+export const signIn = async (prevState: AuthActionState, formData: FormData): Promise<AuthActionState> => {
+    const email = formData.get('email');
+    const password = formData.get('password');
+
+    if (typeof email !== 'string' || typeof password !== 'string') {
+        return { status: 'error', message: 'Please enter your email and password.' };
+    }
+
+    try {
+        const user = await authenticate(email, password);
+        await createSession(user._id);
+    } catch (e) {
+        if (e instanceof AuthError) {
+            return { status: 'error', message: e.message };
+        }
+
+        console.error('Sign-in failed:', e);
+        return { status: 'error', message: 'Something went wrong. Please try again.' };
+    }
+
+    redirect(safeRedirectPath(formData.get('next')));
+}
+
+/**
+ * Signs the current organizer out
+ */
+export const signOut = async () => {
+    await destroySession();
+    redirect('/');
+}
@@ -0,0 +1,264 @@
+'use server';
+
+import mongoose from "mongoose";
+import { revalidatePath } from "next/cache";
+import connectDB from "../mongodb";
+import { Event, type BookingStatus } from "@/database";
+import { getCurrentUser, isEventOwner } from "../auth";
+import { formatTicketCode, renderTicketQrDataUrl } from "../tickets";
+import {
+    cancelBookingWithToken,
+    checkInTicket,
+    createBookingForEvent,
+    EventEndedError,
+    EventNotFoundError,
+    getAttendeeSummary,
+    getCancellationPath,
+    sendBookingConfirmation,
+    type CheckInResult,
+} from "../bookings";
+
+/**
+ * Result of a booking attempt, returned to the BookEvent form
+ * `status` tells the form which state to render
+ */
+export type BookingActionState =
+    | { status: 'idle' }
+    | {
+        status: 'success';
+        bookingId: string;
+        email: string;
+        bookingStatus: Exclude<BookingStatus, 'cancelled'>;
+        bookingCount: number;
+        cancelUrl: string;
+        ticket: { code: string; qrCode: string | null } | null; // Formatted code and QR image as a data URL
+    }
+    | { status: 'already-booked'; email: string; message: string }
+    | { status: 'error'; message: string };
+
+/**
+ * Checks whether an error is a MongoDB duplicate key error (code 11000)
+ */
+function isDuplicateKeyError(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+}
+
+/**
+ * Renders the QR image of a ticket for the booking confirmation
+ * The booking is already saved by then, so a failure only leaves out the image
+ */
+async function renderTicketQrCode(slug: string, ticketCode: string): Promise<string | null> {
+    try {
+        return await renderTicketQrDataUrl(slug, ticketCode);
+    } catch (error) {
+        console.error('Failed to render ticket QR code:', error);
+        return null;
+    }
+}
+
+/**
+ * Creates a Booking for an event
+ * The booking is confirmed while seats are left and waitlisted once the event is full
+ * Used as the action of the BookEvent form via useActionState
+ *
+ * @param prevState - Previous form state (unused, required by useActionState)
+ * @param formData - Form data containing eventId and email
+ * @returns Typed state describing the outcome of the booking
+ */
+export const createBooking = async (
+    prevState: BookingActionState,
+    formData: FormData
+): Promise<BookingActionState> => {
+    const eventId = formData.get('eventId');
+    const email = formData.get('email');
+
+    if (typeof eventId !== 'string' || !mongoose.isValidObjectId(eventId)) {
+        return { status: 'error', message: 'This event could not be found.' };
+    }
+
+    if (typeof email !== 'string' || email.trim().length === 0) {
+        return { status: 'error', message: 'Please enter your email address.' };
+    }
+
+    try {
+        await connectDB();
+
+        const booking = await createBookingForEvent(eventId, email);
+        const { total: bookingCount } = await getAttendeeSummary(eventId);
+        const event = await Event.findById(eventId).select('slug').lean();
+
+        // The booking is already saved, so a mail failure must not fail the request
+        await sendBookingConfirmation(booking).catch((error) => {
+            console.error('Failed to send booking confirmation:', error);
+        });
+
+        // Refresh pages that show booking counts
+        revalidatePath('/events/[slug]', 'page');
+        revalidatePath('/');
+
+        return {
+            status: 'success',
+            bookingId: booking._id.toString(),
+            email: booking.email,
+            bookingStatus: booking.status === 'waitlisted' ? 'waitlisted' : 'confirmed',
+            bookingCount,
+            cancelUrl: getCancellationPath(booking._id),
+            ticket: event && booking.ticketCode
+                ? {
+                    code: formatTicketCode(booking.ticketCode),
+                    qrCode: await renderTicketQrCode(event.slug, booking.ticketCode),
+                }
+                : null,
+        };
+    } catch (e) {
+        // Compound unique index on { eventId, email } rejects a second booking
+        if (isDuplicateKeyError(e)) {
+            return {
+                status: 'already-booked',
+                email: email.trim().toLowerCase(),
+                message: 'You have already booked a spot for this event.',
+            };
+        }
+
+        if (e instanceof mongoose.Error.ValidationError) {
+            const firstError = Object.values(e.errors)[0];
+            return { status: 'error', message: firstError?.message ?? 'Invalid booking details.' };
+        }
+
+        if (e instanceof EventNotFoundError) {
+            return { status: 'error', message: 'This event could not be found.' };
+        }
+
+        if (e instanceof EventEndedError) {
+            return { status: 'error', message: 'This event has ended and is no longer taking bookings.' };
+        }
+
+        console.error('Booking creation failed:', e);
+
+        return { status: 'error', message: 'Something went wrong. Please try again.' };
+    }
+}
+
+/**
+ * Result of a cancellation attempt, returned to the CancelBooking form
+ */
+export type CancelBookingState =
+    | { status: 'idle' }
+    | { status: 'cancelled'; message: string }
+    | { status: 'error'; message: string };
+
+/**
+ * Cancels a booking through its signed cancellation link
+ * Used as the action of the CancelBooking form via useActionState
+ *
+ * @param prevState - Previous form state (unused, required by useActionState)
+ * @param formData - Form data containing the cancellation token
+ * @returns Typed state describing the outcome of the cancellation
+ */
+export const cancelBooking = async (
+    prevState: CancelBookingState,
+    formData: FormData
+): Promise<CancelBookingState> => {
+    const token = formData.get('token');
+
+    if (typeof token !== 'string' || token.length === 0) {
+        return { status: 'error', message: 'This cancellation link is invalid.' };
+    }
+
+    try {
+        await connectDB();
+
+        const result = await cancelBookingWithToken(token);
+
+        if (result.status !== 'valid') {
+            return { status: 'error', message: result.message };
+        }
+
+        revalidatePath('/events/[slug]', 'page');
+        revalidatePath('/');
+
+        return { status: 'cancelled', message: 'Your booking has been cancelled.' };
+    } catch (e) {
+        console.error('Booking cancellation failed:', e);
+        return { status: 'error', message: 'Something went wrong. Please try again.' };
+    }
+}
+
+/**
+ * Result of a check-in attempt, returned to the CheckIn form
+ * `rejected` covers tickets that cannot be checked in, with the reason from checkInTicket
+ */
+export type CheckInState =
+    | { status: 'idle' }
+    | { status: 'checked-in'; email: string; code: string; checkedInAt: Date }
+    | {
+        status: 'rejected';
+        reason: Exclude<CheckInResult['status'], 'checked-in'>;
+        message: string;
+        email?: string;
+        checkedInAt?: Date | null;
+    }
+    | { status: 'error'; message: string };
+
+/**
+ * Checks in an attendee by their ticket code
+ * Only the event owner can check people in; a ticket is accepted once
+ * Used as the action of the CheckIn form via useActionState
+ *
+ * @param prevState - Previous form state (unused, required by useActionState)
+ * @param formData - Form data containing eventId and the typed or scanned code
+ * @returns Typed state describing the outcome of the check-in
+ */
+export const checkInBooking = async (
+    prevState: CheckInState,
+    formData: FormData
+): Promise<CheckInState> => {
+    const eventId = formData.get('eventId');
+    const code = formData.get('code');
+
+    if (typeof eventId !== 'string' || !mongoose.isValidObjectId(eventId)) {
+        return { status: 'error', message: 'This event could not be found.' };
+    }
+
+    if (typeof code !== 'string' || code.trim().length === 0) {
+        return { status: 'error', message: 'Please enter or scan a ticket code.' };
+    }
+
+    try {
+        await connectDB();
+
+        const [user, event] = await Promise.all([getCurrentUser(), Event.findById(eventId).select('owner').lean()]);
+        if (!event) {
+            return { status: 'error', message: 'This event could not be found.' };
+        }
+        if (!user || !isEventOwner(user, event)) {
+            return { status: 'error', message: 'Only the event owner can check attendees in.' };
+        }
+
+        const result = await checkInTicket(eventId, code);
+
+        if (result.status !== 'checked-in') {
+            return {
+                status: 'rejected',
+                reason: result.status,
+                message: result.message,
+                email: result.booking?.email,
+                checkedInAt: result.booking?.checkedInAt,
+            };
+        }
+
+        // Refresh the attendance figures on the check-in page
+        revalidatePath('/events/[slug]/check-in', 'page');
+
+        return {
+            status: 'checked-in',
+            email: result.booking.email,
+            // Found by its ticket code, so it has one
+            code: formatTicketCode(result.booking.ticketCode as string),
+            checkedInAt: result.booking.checkedInAt ?? new Date(),
+        };
+    } catch (e) {
+        console.error('Check-in failed:', e);
+        return { status: 'error', message: 'Something went wrong. Please try again.' };
+    }
+}
@@ -2,8 +2,17 @@
 
 import connectDB from "../mongodb";
 import { Event } from "@/database";
+import { withBookingCounts } from "../bookings";
+import { DEFAULT_SIMILAR_EVENTS_LIMIT, getSimilarEvents } from "../recommendations";
 
-export const getSimilarEventsBySlug = async (slug: string) => {
+/**
+ * Recommends upcoming events similar to the event with the given slug, best match first
+ *
+ * @param slug - Slug of the event being viewed
+ * @param limit - Maximum number of recommendations
+ * @returns Similar events with their booking counts; empty if the event does not exist
+ */
+export const getSimilarEventsBySlug = async (slug: string, limit: number = DEFAULT_SIMILAR_EVENTS_LIMIT) => {
     try {
         await connectDB();
 
@@ -13,12 +22,10 @@ export const getSimilarEventsBySlug = async (slug: string) => {
             return [];
         }
 
-        return await Event.find({
-            _id: { $ne: event._id },
-            tags: { $in: event.tags ?? [] },
-        }).lean();
+        return await withBookingCounts(await getSimilarEvents(event, limit));
 
     } catch (e) {
-        return [];
+        console.error(`Error recommending events similar to "${slug}":`, e);
+        throw e;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { ApiError } from './errors';
+
+/**
+ * Reads the body of a request that may be sent as JSON or as form data
+ * Form data keeps uploaded files as File values; JSON keeps arrays and numbers as they are
+ * Field values still need to be checked against a schema afterwards
+ *
+ * @returns The fields of the body
+ * @throws ApiError 400 if the body cannot be read or is not a JSON object
+ */
+export async function readRequestBody(req: NextRequest): Promise<Record<string, unknown>> {
+  const contentType = req.headers.get('content-type') ?? '';
+
+  if (contentType.includes('multipart/form-data') || contentType.includes('application/x-www-form-urlencoded')) {
+    try {
+      return Object.fromEntries((await req.formData()).entries());
+    } catch {
+      throw new ApiError(400, 'BAD_REQUEST', 'Request body must be valid form data');
+    }
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    throw new ApiError(400, 'BAD_REQUEST', 'Request body must be valid JSON or form data');
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ApiError(400, 'BAD_REQUEST', 'Request body must be a JSON object');
+  }
+
+  return body as Record<string, unknown>;
+}
@@ -0,0 +1,57 @@
+/**
+ * Error codes used in API error responses
+ */
+export type ApiErrorCode =
+  | 'BAD_REQUEST'
+  | 'INVALID_QUERY'
+  | 'INVALID_PARAMETER'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'GONE'
+  | 'VALIDATION_FAILED'
+  | 'SERVICE_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+/**
+ * An error with a known HTTP status, thrown by route handlers (or code they call)
+ * and turned into an error response by withApiHandler
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Reason per invalid field, keyed by field path (e.g. "title", "agenda.0")
+ * Request validation and Mongoose validation both report errors in this shape
+ */
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Error thrown when a request body fails validation; responds 422 with the field errors as details
+ */
+export class RequestValidationError extends ApiError {
+  constructor(readonly errors: FieldErrors, message: string = 'Validation failed') {
+    super(422, 'VALIDATION_FAILED', message, errors);
+    this.name = 'RequestValidationError';
+  }
+}
+
+/**
+ * Error thrown when the database cannot be reached; responds 503
+ */
+export class DatabaseConnectionError extends ApiError {
+  constructor(readonly cause: unknown) {
+    super(503, 'SERVICE_UNAVAILABLE', 'Unable to connect to the database');
+    this.name = 'DatabaseConnectionError';
+  }
+}
@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto';
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { fieldErrorsFromMongoose } from '@/lib/validation';
+import { ApiError, type ApiErrorCode } from './errors';
+
+/**
+ * Body of every API error response
+ */
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  message: string;
+  details?: unknown;
+  requestId: string;
+}
+
+const REQUEST_ID_HEADER = 'x-request-id';
+
+/**
+ * Names of driver errors raised when MongoDB cannot be reached mid-request
+ */
+const CONNECTION_ERROR_NAMES = new Set([
+  'MongoNetworkError',
+  'MongoNetworkTimeoutError',
+  'MongoServerSelectionError',
+  'MongooseServerSelectionError',
+  'MongoNotConnectedError',
+]);
+
+/**
+ * Uses the caller's request ID when it looks like one, so logs can be correlated across services
+ */
+function getRequestId(req: NextRequest): string {
+  const header = req.headers.get(REQUEST_ID_HEADER);
+
+  return header && /^[\w-]{1,128}$/.test(header) ? header : randomUUID();
+}
+
+/**
+ * Maps any thrown value to an ApiError
+ * Unknown errors become a 500 whose details (message and stack) are only shown in development
+ */
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (error instanceof mongoose.Error.ValidationError) {
+    return new ApiError(422, 'VALIDATION_FAILED', 'Validation failed', fieldErrorsFromMongoose(error));
+  }
+
+  if (error instanceof mongoose.Error.CastError) {
+    return new ApiError(400, 'INVALID_PARAMETER', `Invalid value for ${error.path}`, { path: error.path });
+  }
+
+  // Duplicate key on a unique index
+  if ((error as { code?: number })?.code === 11000) {
+    const keyValue = (error as { keyValue?: Record<string, unknown> }).keyValue ?? {};
+    return new ApiError(409, 'CONFLICT', 'A record with the same values already exists', {
+      fields: Object.keys(keyValue),
+    });
+  }
+
+  if (error instanceof Error && CONNECTION_ERROR_NAMES.has(error.name)) {
+    return new ApiError(503, 'SERVICE_UNAVAILABLE', 'Unable to connect to the database');
+  }
+
+  return new ApiError(
+    500,
+    'INTERNAL_ERROR',
+    'An unexpected error occurred',
+    process.env.NODE_ENV === 'development' && error instanceof Error
+      ? { name: error.name, message: error.message, stack: error.stack }
+      : undefined
+  );
+}
+
+/**
+ * Builds the JSON error response for an error
+ *
+ * @param error - Thrown value
+ * @param requestId - ID of the request, echoed in the body and the X-Request-Id header
+ */
+export function toErrorResponse(error: unknown, requestId: string): NextResponse<ApiErrorBody> {
+  const { status, code, message, details } = toApiError(error);
+
+  return NextResponse.json(
+    { code, message, ...(details !== undefined && { details }), requestId },
+    { status, headers: { [REQUEST_ID_HEADER]: requestId } }
+  );
+}
+
+/**
+ * Wraps a route handler so every error it throws is returned in the same JSON envelope:
+ * { code, message, details?, requestId }
+ * Server errors are logged with the request ID; every response carries an X-Request-Id header
+ *
+ * @param handler - Route handler; throw ApiError (or a subclass) for expected failures
+ * @returns Route handler to export as GET, POST, ...
+ */
+export function withApiHandler<Context>(
+  handler: (req: NextRequest, context: Context) => Promise<Response>
+): (req: NextRequest, context: Context) => Promise<Response> {
+  return async (req, context) => {
+    const requestId = getRequestId(req);
+
+    try {
+      const response = await handler(req, context);
+      response.headers.set(REQUEST_ID_HEADER, requestId);
+      return response;
+    } catch (error) {
+      const response = toErrorResponse(error, requestId);
+
+      if (response.status >= 500) {
+        console.error(`[${requestId}] ${req.method} ${req.nextUrl.pathname} failed:`, error);
+      }
+
+      return response;
+    }
+  };
+}
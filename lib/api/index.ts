@@ -0,0 +1,9 @@
+export {
+  ApiError,
+  DatabaseConnectionError,
+  RequestValidationError,
+  type ApiErrorCode,
+  type FieldErrors,
+} from './errors';
+export { readRequestBody } from './body';
+export { toErrorResponse, withApiHandler, type ApiErrorBody } from './handler';
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Types } from 'mongoose';
+import { Booking } from '@/database';
+import { exportAttendees } from './attendees';
+
+const event = { _id: new Types.ObjectId(), slug: 'node-summit', title: 'Node Summit' };
+
+/**
+ * Stubs the booking cursor of an export
+ */
+function stubBookings(bookings: Array<Record<string, unknown>>) {
+  const queue = [...bookings];
+  return vi.spyOn(Booking, 'find').mockReturnValue({
+    sort: () => ({
+      select: () => ({
+        lean: () => ({ cursor: () => ({ next: async () => queue.shift() ?? null, close: async () => {} }) }),
+      }),
+    }),
+  } as never);
+}
+
+describe('exportAttendees', () => {
+  it('exports bookings saved before statuses existed as confirmed', async () => {
+    const find = stubBookings([
+      { eventId: event._id, email: 'ada@example.com', status: 'confirmed', createdAt: new Date('2026-05-01T09:00:00Z') },
+      { eventId: event._id, email: 'grace@example.com', createdAt: new Date('2026-04-01T09:00:00Z') },
+    ]);
+
+    const csv = await new Response(exportAttendees([event], { status: 'confirmed' }, 'csv')).text();
+
+    expect(find).toHaveBeenCalledWith({
+      eventId: { $in: [event._id] },
+      status: { $nin: ['waitlisted', 'cancelled'] },
+    });
+    expect(csv.trim().split(/\r?\n/).slice(1)).toEqual([
+      'ada@example.com,2026-05-01T09:00:00.000Z,confirmed,',
+      'grace@example.com,2026-04-01T09:00:00.000Z,confirmed,',
+    ]);
+  });
+
+  it('filters on other statuses as given', () => {
+    const find = stubBookings([]);
+
+    exportAttendees([event], { status: 'waitlisted' }, 'csv');
+
+    expect(find).toHaveBeenCalledWith({ eventId: { $in: [event._id] }, status: 'waitlisted' });
+  });
+});
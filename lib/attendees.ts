@@ -0,0 +1,102 @@
+import { Types, type QueryFilter } from 'mongoose';
+import { BOOKING_STATUSES, Booking, type BookingStatus, type IBooking, type IEvent } from '@/database';
+import { confirmedMatch } from './bookings';
+import { EventQueryError, parseDateBound } from './events';
+import { createExportStream, type TransferFormat } from './export-stream';
+
+/**
+ * Attendee exports for organizers: who booked an event, when, and the state of their booking
+ */
+
+export const ATTENDEE_EXPORT_FIELDS = ['email', 'bookedAt', 'status', 'checkedInAt'] as const;
+
+/**
+ * Columns of an export across several events; each booking names its event first
+ */
+export const COMBINED_ATTENDEE_EXPORT_FIELDS = ['eventSlug', 'eventTitle', ...ATTENDEE_EXPORT_FIELDS] as const;
+
+/**
+ * Parsed query of an attendee export
+ */
+export interface AttendeeQuery {
+  from?: Date; // Booked at or after
+  to?: Date; // Booked at or before
+  status?: BookingStatus;
+}
+
+/**
+ * Parses the query parameters of an attendee export
+ *
+ * Supported parameters:
+ * - from, to: bookings made in the range; a plain YYYY-MM-DD date covers the whole day (UTC)
+ * - status: confirmed, waitlisted or cancelled; all bookings when omitted
+ *
+ * @throws EventQueryError if a parameter is invalid
+ */
+export function parseAttendeeQuery(params: URLSearchParams): AttendeeQuery {
+  const get = (name: string) => params.get(name)?.trim() || undefined;
+
+  const fromParam = get('from');
+  const toParam = get('to');
+  const from = fromParam ? parseDateBound(fromParam, 'from') : undefined;
+  const to = toParam ? parseDateBound(toParam, 'to') : undefined;
+  if (from && to && from > to) {
+    throw new EventQueryError('from must be before to');
+  }
+
+  const status = get('status')?.toLowerCase();
+  if (status && !BOOKING_STATUSES.includes(status as BookingStatus)) {
+    throw new EventQueryError(`status must be one of: ${BOOKING_STATUSES.join(', ')}`);
+  }
+
+  return { from, to, status: status as BookingStatus | undefined };
+}
+
+/**
+ * Streams the bookings of one or more events as CSV or JSON ({ "attendees": [...] })
+ * Bookings are read with a cursor in booking order, so large events are never held in memory
+ *
+ * @param events - Events whose bookings to export
+ * @param query - Parsed query, see parseAttendeeQuery
+ * @param format - csv or json
+ * @param options.combined - Name the event of each booking, for exports across several events
+ * @returns Stream of the encoded file
+ */
+export function exportAttendees(
+  events: Array<Pick<IEvent, 'slug' | 'title'> & { _id: Types.ObjectId }>,
+  query: AttendeeQuery,
+  format: TransferFormat,
+  { combined = false }: { combined?: boolean } = {}
+): ReadableStream<Uint8Array> {
+  const eventsById = new Map(events.map((event) => [event._id.toString(), event]));
+
+  const filter: QueryFilter<IBooking> = { eventId: { $in: events.map((event) => event._id) } };
+  // Bookings saved before statuses existed have none and are confirmed
+  if (query.status) Object.assign(filter, query.status === 'confirmed' ? confirmedMatch : { status: query.status });
+  if (query.from || query.to) {
+    filter.createdAt = { ...(query.from && { $gte: query.from }), ...(query.to && { $lte: query.to }) };
+  }
+
+  const cursor = Booking.find(filter)
+    .sort({ eventId: 1, createdAt: 1, _id: 1 })
+    .select('eventId email status createdAt checkedInAt')
+    .lean<IBooking>()
+    .cursor();
+
+  return createExportStream(cursor, {
+    format,
+    columns: combined ? COMBINED_ATTENDEE_EXPORT_FIELDS : ATTENDEE_EXPORT_FIELDS,
+    key: 'attendees',
+    toRow: (booking) => {
+      const event = eventsById.get(booking.eventId.toString());
+
+      return {
+        ...(combined && { eventSlug: event?.slug, eventTitle: event?.title }),
+        email: booking.email,
+        bookedAt: booking.createdAt,
+        status: booking.status ?? 'confirmed',
+        checkedInAt: booking.checkedInAt ?? null,
+      };
+    },
+  });
+}
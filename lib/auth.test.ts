@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { scrypt } from 'crypto';
+import { Types } from 'mongoose';
+import { User } from '@/database';
+import { AuthError, authenticate, hashPassword, safeRedirectPath, verifyPassword } from './auth';
+
+// Counts scrypt runs, so the work done for unknown emails can be compared with wrong passwords
+vi.mock('crypto', async (importOriginal) => {
+  const crypto = await importOriginal<typeof import('crypto')>();
+  return { ...crypto, scrypt: vi.fn(crypto.scrypt) };
+});
+
+vi.mock('./mongodb', () => ({ default: vi.fn() }));
+
+/**
+ * Stubs the account lookup of authenticate
+ */
+function stubUser(passwordHash: string | null) {
+  const user = passwordHash
+    ? User.hydrate({ _id: new Types.ObjectId(), name: 'Ada', email: 'ada@example.com', passwordHash })
+    : null;
+  vi.spyOn(User, 'findOne').mockReturnValue({ select: async () => user } as never);
+  return user;
+}
+
+describe('passwords', () => {
+  it('verifies only the password that was hashed', async () => {
+    const hash = await hashPassword('correct horse');
+
+    expect(hash).toMatch(/^scrypt\$[\w-]+\$[\w-]+$/);
+    expect(await verifyPassword('correct horse', hash)).toBe(true);
+    expect(await verifyPassword('wrong horse', hash)).toBe(false);
+  });
+
+  it('salts every hash', async () => {
+    expect(await hashPassword('correct horse')).not.toBe(await hashPassword('correct horse'));
+  });
+
+  it('rejects hashes it did not create', async () => {
+    expect(await verifyPassword('correct horse', 'md5$abc')).toBe(false);
+  });
+});
+
+describe('authenticate', () => {
+  let passwordHash: string;
+
+  beforeEach(async () => {
+    passwordHash = await hashPassword('correct horse');
+    vi.mocked(scrypt).mockClear();
+  });
+
+  it('returns the account for the right password', async () => {
+    const user = stubUser(passwordHash);
+
+    expect(await authenticate(' Ada@Example.com ', 'correct horse')).toBe(user);
+    expect(User.findOne).toHaveBeenCalledWith({ email: 'ada@example.com' });
+  });
+
+  it('fails the same way, with the same scrypt work, for unknown emails and wrong passwords', async () => {
+    stubUser(passwordHash);
+    const wrongPassword = await authenticate('ada@example.com', 'wrong horse').catch((error) => error);
+    const wrongPasswordRuns = vi.mocked(scrypt).mock.calls.length;
+
+    vi.mocked(scrypt).mockClear();
+    stubUser(null);
+    const unknownEmail = await authenticate('grace@example.com', 'wrong horse').catch((error) => error);
+
+    expect(wrongPassword).toEqual(new AuthError('Invalid email or password'));
+    expect(unknownEmail).toEqual(new AuthError('Invalid email or password'));
+    expect(wrongPasswordRuns).toBe(1);
+    expect(scrypt).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('safeRedirectPath', () => {
+  it.each(['/', '/events/node-summit', '/events?tag=node#top'])('keeps %s', (path) => {
+    expect(safeRedirectPath(path)).toBe(path);
+  });
+
+  it.each(['https://evil.com', '//evil.com', '/\\evil.com', '/\t/evil.com', '/\n/evil.com', 'events', '', null])(
+    'replaces %j with /',
+    (value) => {
+      expect(safeRedirectPath(value)).toBe('/');
+    }
+  );
+});
@@ -0,0 +1,178 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { cookies } from 'next/headers';
+import { Types } from 'mongoose';
+import { Session, User, type IUser } from '@/database';
+import connectDB from './mongodb';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'devevent_session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const KEY_LENGTH = 64;
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Well-formed hash no password matches, checked when the email is unknown
+ * so a failed sign-in takes as long whether or not the account exists
+ */
+const DUMMY_PASSWORD_HASH = `scrypt$${Buffer.alloc(16).toString('base64url')}$${Buffer.alloc(KEY_LENGTH).toString('base64url')}`;
+
+/**
+ * Error thrown when sign-up or sign-in fails for a reason the user can fix
+ */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Hashes a password with scrypt and a random salt
+ * Format: scrypt$<salt>$<hash>, both base64url encoded
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+
+  return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+}
+
+/**
+ * Checks a password against a hash created by hashPassword, in constant time
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [algorithm, salt, hash] = passwordHash.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64url');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64url'), expected.length);
+
+  return timingSafeEqual(expected, actual);
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Creates a user account
+ *
+ * @throws AuthError if the password is too short or the email is already registered
+ */
+export async function registerUser({ name, email, password }: { name: string; email: string; password: string }): Promise<IUser> {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  await connectDB();
+
+  try {
+    return await User.create({ name, email, passwordHash: await hashPassword(password) });
+  } catch (error) {
+    // Unique index on email
+    if ((error as { code?: number }).code === 11000) {
+      throw new AuthError('An account with this email already exists');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Checks an email and password
+ *
+ * @throws AuthError if the credentials do not match an account
+ */
+export async function authenticate(email: string, password: string): Promise<IUser> {
+  await connectDB();
+
+  const user = await User.findOne({ email: email.trim().toLowerCase() }).select('+passwordHash');
+
+  // Same message and the same scrypt work for unknown email and wrong password, so accounts cannot be enumerated
+  const passwordMatches = await verifyPassword(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+  if (!user || !passwordMatches) {
+    throw new AuthError('Invalid email or password');
+  }
+
+  return user;
+}
+
+/**
+ * Starts a session for a user and stores its token in a secure, HTTP-only cookie
+ */
+export async function createSession(userId: Types.ObjectId | string): Promise<void> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await connectDB();
+  await Session.create({ userId, tokenHash: hashToken(token), expiresAt });
+
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+/**
+ * Ends the current session and clears its cookie
+ */
+export async function destroySession(): Promise<void> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+
+  if (token) {
+    await connectDB();
+    await Session.deleteOne({ tokenHash: hashToken(token) });
+  }
+
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+/**
+ * Returns the signed-in user, or null when there is no valid session
+ */
+export async function getCurrentUser(): Promise<IUser | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+  if (!token) {
+    return null;
+  }
+
+  await connectDB();
+
+  const session = await Session.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } });
+  if (!session) {
+    return null;
+  }
+
+  return User.findById(session.userId);
+}
+
+/**
+ * Checks whether a user owns an event
+ * Events created before ownership existed have no owner and cannot be changed by anyone
+ */
+export function isEventOwner(user: IUser, event: { owner?: Types.ObjectId | null }): boolean {
+  return event.owner?.toString() === user._id.toString();
+}
+
+/**
+ * Returns the path to go to after signing in, or / unless it stays within the app
+ * Backslashes and control characters are rejected since browsers treat /\evil.com and /<tab>/evil.com like //evil.com
+ */
+export function safeRedirectPath(value: unknown): string {
+  if (typeof value !== 'string' || !value.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(value)) {
+    return '/';
+  }
+
+  const origin = 'http://app.invalid';
+  const url = new URL(value, origin);
+  return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : '/';
+}
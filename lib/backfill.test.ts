@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Types } from 'mongoose';
+import { Booking, Event } from '@/database';
+import { backfillEventSchedule, backfillSeatsTaken } from './backfill';
+
+/**
+ * Stubs the cursor a backfill reads with
+ */
+function stubEvents(events: Array<Record<string, unknown>>) {
+  const queue = [...events];
+  vi.spyOn(Event, 'find').mockReturnValue({
+    select: () => ({ lean: () => ({ cursor: () => ({ next: async () => queue.shift() ?? null }) }) }),
+  } as never);
+  return vi.spyOn(Event, 'bulkWrite').mockResolvedValue({} as never);
+}
+
+describe('backfillEventSchedule', () => {
+  it('derives the start and end of events saved without them', async () => {
+    const ids = [new Types.ObjectId(), new Types.ObjectId(), new Types.ObjectId()];
+    const bulkWrite = stubEvents([
+      { _id: ids[0], date: '2025-11-15', time: '09:00' },
+      { _id: ids[1], date: '2025-11-15', time: '09:00', timezone: 'Europe/Amsterdam', endTime: '17:00' },
+      { _id: ids[2], date: 'someday', time: 'soon' },
+    ]);
+
+    expect(await backfillEventSchedule()).toEqual({ scanned: 3, updated: 2 });
+    expect(bulkWrite).toHaveBeenCalledWith([
+      {
+        updateOne: {
+          filter: { _id: ids[0] },
+          update: {
+            $set: {
+              timezone: 'UTC',
+              startsAt: new Date('2025-11-15T09:00:00.000Z'),
+              endsAt: new Date('2025-11-15T11:00:00.000Z'),
+            },
+          },
+        },
+      },
+      {
+        updateOne: {
+          filter: { _id: ids[1] },
+          update: {
+            $set: {
+              timezone: 'Europe/Amsterdam',
+              startsAt: new Date('2025-11-15T08:00:00.000Z'),
+              endsAt: new Date('2025-11-15T16:00:00.000Z'),
+            },
+          },
+        },
+      },
+    ]);
+  });
+});
+
+describe('backfillSeatsTaken', () => {
+  it('sets the seat counter to the number of confirmed bookings', async () => {
+    const ids = [new Types.ObjectId(), new Types.ObjectId(), new Types.ObjectId()];
+    const aggregate = vi.spyOn(Booking, 'aggregate').mockResolvedValue([
+      { _id: ids[0], count: 12 },
+      { _id: ids[1], count: 3 },
+    ]);
+    const bulkWrite = stubEvents([
+      { _id: ids[0] },
+      { _id: ids[1], seatsTaken: 3 },
+      { _id: ids[2], seatsTaken: 2 },
+    ]);
+
+    expect(await backfillSeatsTaken()).toEqual({ scanned: 3, updated: 2 });
+    // Bookings without a status count as confirmed, as everywhere else
+    expect(aggregate).toHaveBeenCalledWith([
+      { $match: { status: { $nin: ['waitlisted', 'cancelled'] } } },
+      expect.anything(),
+    ]);
+    expect(bulkWrite).toHaveBeenCalledWith([
+      { updateOne: { filter: { _id: ids[0] }, update: { $set: { seatsTaken: 12 } } } },
+      { updateOne: { filter: { _id: ids[2] }, update: { $set: { seatsTaken: 0 } } } },
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+import type { AnyBulkWriteOperation, Types } from 'mongoose';
+import { Booking, Event, generateTicketCode, type IBooking, type IEvent } from '@/database';
+import { confirmedMatch } from './bookings';
+import { DEFAULT_EVENT_DURATION_MS, DEFAULT_TIMEZONE, zonedTimeToUtc } from './datetime';
+import { normalizeTags } from './tags';
+
+/**
+ * One-off updates that bring documents saved by older versions of the app up to date
+ * Each is safe to run again: documents already up to date are left alone
+ */
+
+const BATCH_SIZE = 500;
+
+export interface BackfillSummary {
+  scanned: number;
+  updated: number;
+}
+
+/**
+ * Normalizes the tags of events saved before tags were normalized on save,
+ * so "React", " react " and "ReactJS" count as one tag in the tag list and tag pages
+ * Events whose tags would all be dropped as blank are left as they are
+ *
+ * @returns How many events were read and how many were changed
+ */
+export async function backfillEventTags(): Promise<BackfillSummary> {
+  const summary: BackfillSummary = { scanned: 0, updated: 0 };
+  const cursor = Event.find().select('tags').lean<IEvent>().cursor();
+
+  let updates: AnyBulkWriteOperation<IEvent>[] = [];
+
+  const flush = async () => {
+    if (updates.length === 0) return;
+    // Raw updates: the pre-save hooks would rederive slugs and times the backfill must not touch
+    await Event.bulkWrite(updates);
+    summary.updated += updates.length;
+    updates = [];
+  };
+
+  for (let event = await cursor.next(); event; event = await cursor.next()) {
+    summary.scanned++;
+
+    const tags = event.tags ?? [];
+    const normalized = normalizeTags(tags);
+    if (normalized.length === 0 || normalized.join('\n') === tags.join('\n')) continue;
+
+    updates.push({ updateOne: { filter: { _id: event._id }, update: { $set: { tags: normalized } } } });
+    if (updates.length >= BATCH_SIZE) await flush();
+  }
+
+  await flush();
+
+  return summary;
+}
+
+/**
+ * Derives the UTC start and end of events saved before they were stored, which the upcoming and past
+ * filters and date sorting rely on; without them such events are missing from listings and the calendar feed
+ * Events whose date or time cannot be read are left for their organizer to fix in the edit form
+ *
+ * @returns How many events were read and how many were changed
+ */
+export async function backfillEventSchedule(): Promise<BackfillSummary> {
+  const summary: BackfillSummary = { scanned: 0, updated: 0 };
+  const cursor = Event.find({ $or: [{ startsAt: null }, { endsAt: null }] })
+    .select('date time timezone endDate endTime')
+    .lean<IEvent>()
+    .cursor();
+
+  let updates: AnyBulkWriteOperation<IEvent>[] = [];
+
+  const flush = async () => {
+    if (updates.length === 0) return;
+    // Raw updates, as in backfillEventTags
+    await Event.bulkWrite(updates);
+    summary.updated += updates.length;
+    updates = [];
+  };
+
+  for (let event = await cursor.next(); event; event = await cursor.next()) {
+    summary.scanned++;
+
+    // Same derivation as the event model's pre-validate hook
+    const timezone = event.timezone || DEFAULT_TIMEZONE;
+    let startsAt: Date;
+    let endsAt: Date;
+    try {
+      startsAt = zonedTimeToUtc(event.date, event.time, timezone);
+      endsAt = event.endDate || event.endTime
+        ? zonedTimeToUtc(event.endDate || event.date, event.endTime || event.time, timezone)
+        : new Date(startsAt.getTime() + DEFAULT_EVENT_DURATION_MS);
+    } catch {
+      continue;
+    }
+
+    updates.push({ updateOne: { filter: { _id: event._id }, update: { $set: { timezone, startsAt, endsAt } } } });
+    if (updates.length >= BATCH_SIZE) await flush();
+  }
+
+  await flush();
+
+  return summary;
+}
+
+/**
+ * Sets the seat counter of every event to its number of confirmed bookings
+ * Events saved before capacities existed start counting from 0, so giving them a capacity would admit too many
+ * The counts are read once, so run it while no bookings are being made
+ *
+ * @returns How many events were read and how many were changed
+ */
+export async function backfillSeatsTaken(): Promise<BackfillSummary> {
+  const summary: BackfillSummary = { scanned: 0, updated: 0 };
+
+  const counts = await Booking.aggregate<{ _id: Types.ObjectId; count: number }>([
+    { $match: confirmedMatch },
+    { $group: { _id: '$eventId', count: { $sum: 1 } } },
+  ]);
+  const seatsByEvent = new Map(counts.map(({ _id, count }) => [_id.toString(), count]));
+
+  const cursor = Event.find().select('seatsTaken').lean<IEvent>().cursor();
+
+  let updates: AnyBulkWriteOperation<IEvent>[] = [];
+
+  const flush = async () => {
+    if (updates.length === 0) return;
+    await Event.bulkWrite(updates);
+    summary.updated += updates.length;
+    updates = [];
+  };
+
+  for (let event = await cursor.next(); event; event = await cursor.next()) {
+    summary.scanned++;
+
+    const seatsTaken = seatsByEvent.get(event._id.toString()) ?? 0;
+    if (event.seatsTaken === seatsTaken) continue;
+
+    updates.push({ updateOne: { filter: { _id: event._id }, update: { $set: { seatsTaken } } } });
+    if (updates.length >= BATCH_SIZE) await flush();
+  }
+
+  await flush();
+
+  return summary;
+}
+
+/**
+ * Gives ticket codes to active bookings made before tickets existed,
+ * so their attendees can be checked in; cancelled bookings are skipped
+ *
+ * @returns How many bookings were read and how many got a code
+ */
+export async function backfillTicketCodes(): Promise<BackfillSummary> {
+  const summary: BackfillSummary = { scanned: 0, updated: 0 };
+  // ticketCode: null also matches bookings without the field
+  const missingCode = { ticketCode: null, status: { $ne: 'cancelled' } } as const;
+  const cursor = Booking.find(missingCode).select('_id').lean<IBooking>().cursor();
+
+  let updates: AnyBulkWriteOperation<IBooking>[] = [];
+
+  const flush = async () => {
+    if (updates.length === 0) return;
+    const { modifiedCount } = await Booking.bulkWrite(updates);
+    summary.updated += modifiedCount;
+    updates = [];
+  };
+
+  for (let booking = await cursor.next(); booking; booking = await cursor.next()) {
+    summary.scanned++;
+
+    // The filter keeps a code given by a concurrent run
+    updates.push({
+      updateOne: { filter: { _id: booking._id, ticketCode: null }, update: { $set: { ticketCode: generateTicketCode() } } },
+    });
+    if (updates.length >= BATCH_SIZE) await flush();
+  }
+
+  await flush();
+
+  return summary;
+}
@@ -0,0 +1,264 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Types } from 'mongoose';
+import { Booking, Event } from '@/database';
+import { cancelBooking, checkInTicket, createBookingForEvent, EventNotFoundError, fillFromWaitlist } from './bookings';
+import { createMemoryTransport, setMailTransport } from './mail';
+
+/**
+ * Booking flows against stubbed model calls: the seat counter, the waitlist and the emails they send
+ */
+
+const eventId = new Types.ObjectId();
+const mail = createMemoryTransport();
+
+const event = Event.hydrate({
+  _id: eventId,
+  title: 'Node Summit',
+  slug: 'node-summit',
+  date: '2099-05-01',
+  time: '09:00',
+  timezone: 'UTC',
+  venue: 'Hall A',
+  location: 'Berlin',
+});
+
+function booking(fields: { email: string; status: string; checkedInAt?: Date }) {
+  return Booking.hydrate({ _id: new Types.ObjectId(), eventId, ticketCode: 'ABCDEFGHJK', ...fields });
+}
+
+/**
+ * Stubs the conditional $inc that claims a seat; each value says whether a seat was free
+ */
+function stubSeats(...free: boolean[]) {
+  const updateOne = vi.spyOn(Event, 'updateOne');
+  for (const seat of free) {
+    updateOne.mockResolvedValueOnce({ modifiedCount: seat ? 1 : 0 } as never);
+  }
+  // Releasing a seat
+  updateOne.mockResolvedValue({ modifiedCount: 1 } as never);
+  return updateOne;
+}
+
+beforeEach(() => {
+  mail.clear();
+  setMailTransport(mail);
+  vi.spyOn(Event, 'findById').mockResolvedValue(event as never);
+  vi.spyOn(Event, 'exists').mockResolvedValue({ _id: eventId } as never);
+  // Nobody is waiting unless a test says otherwise
+  vi.spyOn(Booking, 'exists').mockResolvedValue(null);
+});
+
+/**
+ * Stubs Booking.create to return the saved booking
+ */
+function stubCreate() {
+  return vi
+    .spyOn(Booking, 'create')
+    .mockImplementation(async (doc) => Booking.hydrate({ _id: new Types.ObjectId(), ...(doc as object) }) as never);
+}
+
+describe('createBookingForEvent', () => {
+  beforeEach(() => {
+    vi.spyOn(Event, 'findById').mockReturnValue({
+      select: () => ({ lean: async () => ({ date: '2099-05-01', endsAt: null }) }),
+    } as never);
+  });
+
+  it('confirms the booking when a seat is free', async () => {
+    stubSeats(true);
+    const create = stubCreate();
+
+    await createBookingForEvent(eventId.toString(), 'ada@example.com');
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ status: 'confirmed' }));
+  });
+
+  it('waitlists the booking when the event is full', async () => {
+    stubSeats(false);
+    const create = stubCreate();
+
+    await createBookingForEvent(eventId.toString(), 'ada@example.com');
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ status: 'waitlisted' }));
+  });
+
+  it('confirms a waitlisted booking when a cancellation released a seat meanwhile', async () => {
+    stubSeats(false, true);
+    const create = stubCreate();
+    vi.spyOn(Booking, 'exists').mockResolvedValueOnce({ _id: new Types.ObjectId() } as never).mockResolvedValue(null);
+    // The oldest waitlisted booking is the one just created
+    vi.spyOn(Booking, 'findOneAndUpdate').mockImplementationOnce((async () => {
+      const created = await create.mock.results[0].value;
+      return created.set({ status: 'confirmed' });
+    }) as never);
+
+    const result = await createBookingForEvent(eventId.toString(), 'ada@example.com');
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ status: 'waitlisted' }));
+    expect(result.status).toBe('confirmed');
+    // The caller sends this attendee's confirmation
+    expect(mail.sent).toHaveLength(0);
+  });
+
+  it('gives the seat back when the booking cannot be saved', async () => {
+    const updateOne = stubSeats(true);
+    vi.spyOn(Booking, 'create').mockRejectedValue(new Error('duplicate'));
+
+    await expect(createBookingForEvent(eventId.toString(), 'ada@example.com')).rejects.toThrow('duplicate');
+
+    expect(updateOne).toHaveBeenLastCalledWith(expect.objectContaining({ _id: eventId.toString() }), {
+      $inc: { seatsTaken: -1 },
+    });
+  });
+
+  it('rejects unknown events', async () => {
+    vi.spyOn(Event, 'findById').mockReturnValue({ select: () => ({ lean: async () => null }) } as never);
+
+    await expect(createBookingForEvent(eventId.toString(), 'ada@example.com')).rejects.toBeInstanceOf(
+      EventNotFoundError
+    );
+  });
+});
+
+describe('cancelBooking', () => {
+  it('moves the oldest waitlisted booking up and emails it a ticket', async () => {
+    const updateOne = stubSeats();
+    vi.spyOn(Booking, 'findOneAndUpdate')
+      .mockResolvedValueOnce(booking({ email: 'ada@example.com', status: 'confirmed' }) as never)
+      .mockResolvedValueOnce(booking({ email: 'grace@example.com', status: 'confirmed' }) as never);
+
+    const result = await cancelBooking(new Types.ObjectId());
+
+    expect(result?.cancelled.status).toBe('cancelled');
+    expect(result?.promoted?.email).toBe('grace@example.com');
+    // The seat passed to the promoted booking, so the counter is unchanged
+    expect(updateOne).not.toHaveBeenCalled();
+
+    expect(mail.sent).toHaveLength(1);
+    expect(mail.sent[0].to).toBe('grace@example.com');
+    expect(mail.sent[0].subject).toBe('A seat opened up: your spot at Node Summit is confirmed');
+    expect(mail.sent[0].text).toContain('ABCDE-FGHJK');
+    expect(mail.sent[0].text).toContain('https://devevent.test/bookings/cancel/');
+  });
+
+  it('releases the seat when nobody is waiting', async () => {
+    const updateOne = stubSeats();
+    vi.spyOn(Booking, 'findOneAndUpdate')
+      .mockResolvedValueOnce(booking({ email: 'ada@example.com', status: 'confirmed' }) as never)
+      .mockResolvedValueOnce(null);
+
+    const result = await cancelBooking(new Types.ObjectId());
+
+    expect(result?.promoted).toBeNull();
+    expect(updateOne).toHaveBeenCalledWith(expect.objectContaining({ _id: eventId }), { $inc: { seatsTaken: -1 } });
+    expect(mail.sent).toHaveLength(0);
+  });
+
+  it('gives the released seat to a booking waitlisted during the cancellation', async () => {
+    stubSeats(true);
+    vi.spyOn(Booking, 'exists').mockResolvedValueOnce({ _id: new Types.ObjectId() } as never).mockResolvedValue(null);
+    vi.spyOn(Booking, 'findOneAndUpdate')
+      .mockResolvedValueOnce(booking({ email: 'ada@example.com', status: 'confirmed' }) as never)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(booking({ email: 'grace@example.com', status: 'confirmed' }) as never);
+
+    const result = await cancelBooking(new Types.ObjectId());
+
+    expect(result?.promoted?.email).toBe('grace@example.com');
+    expect(mail.sent.map(({ to }) => to)).toEqual(['grace@example.com']);
+  });
+
+  it('keeps the seats when a waitlisted booking is cancelled', async () => {
+    const findOneAndUpdate = vi
+      .spyOn(Booking, 'findOneAndUpdate')
+      .mockResolvedValueOnce(booking({ email: 'ada@example.com', status: 'waitlisted' }) as never);
+
+    const result = await cancelBooking(new Types.ObjectId());
+
+    expect(result?.promoted).toBeNull();
+    expect(findOneAndUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns null for bookings that are already cancelled', async () => {
+    vi.spyOn(Booking, 'findOneAndUpdate').mockResolvedValueOnce(null);
+
+    expect(await cancelBooking(new Types.ObjectId())).toBeNull();
+  });
+});
+
+describe('fillFromWaitlist', () => {
+  it('promotes waitlisted bookings until the seats run out, emailing each', async () => {
+    stubSeats(true, true, false);
+    vi.spyOn(Booking, 'exists').mockResolvedValue({ _id: new Types.ObjectId() } as never);
+    vi.spyOn(Booking, 'findOneAndUpdate')
+      .mockResolvedValueOnce(booking({ email: 'ada@example.com', status: 'confirmed' }) as never)
+      .mockResolvedValueOnce(booking({ email: 'grace@example.com', status: 'confirmed' }) as never);
+
+    const promoted = await fillFromWaitlist(eventId);
+
+    expect(promoted.map(({ email }) => email)).toEqual(['ada@example.com', 'grace@example.com']);
+    expect(mail.sent.map(({ to }) => to)).toEqual(['ada@example.com', 'grace@example.com']);
+  });
+
+  it('still promotes when an email cannot be sent', async () => {
+    stubSeats(true);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(mail, 'send').mockRejectedValue(new Error('SMTP down'));
+    vi.spyOn(Booking, 'exists').mockResolvedValueOnce({ _id: new Types.ObjectId() } as never).mockResolvedValue(null);
+    vi.spyOn(Booking, 'findOneAndUpdate').mockResolvedValueOnce(
+      booking({ email: 'ada@example.com', status: 'confirmed' }) as never
+    );
+
+    expect(await fillFromWaitlist(eventId)).toHaveLength(1);
+  });
+});
+
+describe('checkInTicket', () => {
+  it('checks in a confirmed ticket once', async () => {
+    const findOneAndUpdate = vi
+      .spyOn(Booking, 'findOneAndUpdate')
+      .mockResolvedValueOnce(booking({ email: 'ada@example.com', status: 'confirmed', checkedInAt: new Date() }) as never);
+
+    const result = await checkInTicket(eventId, 'abcde-fghjk');
+
+    expect(result.status).toBe('checked-in');
+    // Only a booking not checked in yet matches, so a second scan cannot check it in again
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ ticketCode: 'ABCDEFGHJK', eventId, checkedInAt: null }),
+      expect.anything(),
+      expect.anything()
+    );
+  });
+
+  it('rejects text that is not a ticket code without a lookup', async () => {
+    const findOne = vi.spyOn(Booking, 'findOne');
+
+    expect(await checkInTicket(eventId, 'hello')).toMatchObject({ status: 'invalid' });
+    expect(findOne).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['already-checked-in', { eventId, status: 'confirmed', checkedInAt: new Date() }],
+    ['cancelled', { eventId, status: 'cancelled' }],
+    ['waitlisted', { eventId, status: 'waitlisted' }],
+    ['wrong-event', { eventId: new Types.ObjectId(), status: 'confirmed' }],
+  ])('reports %s tickets', async (status, fields) => {
+    vi.spyOn(Booking, 'findOneAndUpdate').mockResolvedValueOnce(null);
+    vi.spyOn(Booking, 'findOne').mockResolvedValueOnce(
+      Booking.hydrate({ _id: new Types.ObjectId(), email: 'ada@example.com', ticketCode: 'ABCDEFGHJK', ...fields }) as never
+    );
+
+    const result = await checkInTicket(eventId, 'ABCDEFGHJK');
+
+    expect(result.status).toBe(status);
+    // Bookings of other events are not disclosed
+    expect('booking' in result && result.booking !== undefined).toBe(status !== 'wrong-event');
+  });
+
+  it('reports unknown codes', async () => {
+    vi.spyOn(Booking, 'findOneAndUpdate').mockResolvedValueOnce(null);
+    vi.spyOn(Booking, 'findOne').mockResolvedValueOnce(null);
+
+    expect(await checkInTicket(eventId, 'ABCDEFGHJK')).toMatchObject({ status: 'not-found' });
+  });
+});
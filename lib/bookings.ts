@@ -0,0 +1,517 @@
+import { Types } from 'mongoose';
+import { Booking, Event, type IBooking, type IEvent, type BookingStatus } from '@/database';
+import { hasEventEnded } from './events';
+import { signToken, verifyToken } from './tokens';
+import { sendMail } from './mail';
+import { renderBookingConfirmation } from './mail/templates/booking-confirmation';
+import { formatTicketCode, normalizeTicketCode, renderTicketQrPng } from './tickets';
+
+/**
+ * Attendee summary for a single event
+ * Shown on the event details page next to the booking form
+ */
+export interface AttendeeSummary {
+  total: number;
+  waitlisted: number;
+  joinedThisWeek: number;
+  lastBookedAt: Date | null;
+}
+
+const ONE_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Matches bookings that hold a seat
+ * Bookings created before statuses existed have no status and count as confirmed
+ */
+export const confirmedMatch = { status: { $nin: ['waitlisted', 'cancelled'] } };
+
+/**
+ * Error thrown when a booking refers to an event that does not exist
+ */
+export class EventNotFoundError extends Error {
+  constructor(eventId: string) {
+    super(`Event with ID ${eventId} does not exist`);
+    this.name = 'EventNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when a booking is made for an event that has already ended
+ */
+export class EventEndedError extends Error {
+  constructor(eventId: string) {
+    super(`Event with ID ${eventId} has already ended`);
+    this.name = 'EventEndedError';
+  }
+}
+
+/**
+ * Atomically claims a seat for an event
+ * The conditional $inc guarantees two bookings can never take the last seat
+ *
+ * @param eventId - ID of the event
+ * @returns 'confirmed' if a seat was claimed, 'waitlisted' if the event is full
+ * @throws EventNotFoundError if the event does not exist
+ */
+async function reserveSeat(eventId: string): Promise<Exclude<BookingStatus, 'cancelled'>> {
+  const result = await Event.updateOne(
+    {
+      _id: eventId,
+      $or: [{ capacity: null }, { $expr: { $lt: ['$seatsTaken', '$capacity'] } }],
+    },
+    { $inc: { seatsTaken: 1 } }
+  );
+
+  if (result.modifiedCount === 1) {
+    return 'confirmed';
+  }
+
+  if (!(await Event.exists({ _id: eventId }))) {
+    throw new EventNotFoundError(eventId);
+  }
+
+  return 'waitlisted';
+}
+
+/**
+ * Gives a previously claimed seat back to the event
+ */
+async function releaseSeat(eventId: Types.ObjectId | string): Promise<void> {
+  await Event.updateOne({ _id: eventId, seatsTaken: { $gt: 0 } }, { $inc: { seatsTaken: -1 } });
+}
+
+/**
+ * Creates a booking that is either confirmed or waitlisted depending on seat availability
+ * If the booking cannot be saved (e.g. duplicate email) the claimed seat is released
+ *
+ * @param eventId - ID of the event
+ * @param email - Attendee email address
+ * @returns The created booking, confirmed if a seat freed up while it was being waitlisted
+ * @throws EventNotFoundError if the event does not exist
+ * @throws EventEndedError if the event has already ended
+ */
+export async function createBookingForEvent(eventId: string, email: string): Promise<IBooking> {
+  const event = await Event.findById(eventId).select('endsAt date').lean();
+  if (!event) {
+    throw new EventNotFoundError(eventId);
+  }
+  if (hasEventEnded(event)) {
+    throw new EventEndedError(eventId);
+  }
+
+  const status = await reserveSeat(eventId);
+
+  let booking: IBooking;
+  try {
+    booking = await Booking.create({ eventId, email, status });
+  } catch (error) {
+    if (status === 'confirmed') {
+      await releaseSeat(eventId);
+    }
+    throw error;
+  }
+
+  if (status === 'waitlisted') {
+    // A cancellation between reserveSeat and the insert found nobody waiting and released its seat;
+    // this booking takes it. The caller emails this booking, so only the others are notified here
+    const promoted = await promoteFromWaitlist(eventId);
+    await notifyPromoted(promoted.filter(({ _id }) => !_id.equals(booking._id)));
+
+    return promoted.find(({ _id }) => _id.equals(booking._id)) ?? booking;
+  }
+
+  return booking;
+}
+
+/**
+ * Promotes waitlisted bookings while the event has free seats and emails their attendees
+ * Used after an event's capacity is raised or a seat is released
+ *
+ * @param eventId - ID of the event
+ * @returns Bookings that moved from the waitlist to confirmed
+ */
+export async function fillFromWaitlist(eventId: Types.ObjectId | string): Promise<IBooking[]> {
+  const promoted = await promoteFromWaitlist(eventId);
+
+  await notifyPromoted(promoted);
+
+  return promoted;
+}
+
+/**
+ * Promotes waitlisted bookings while the event has free seats, without emailing them
+ */
+async function promoteFromWaitlist(eventId: Types.ObjectId | string): Promise<IBooking[]> {
+  const promoted: IBooking[] = [];
+
+  while (await Booking.exists({ eventId, status: 'waitlisted' })) {
+    if ((await reserveSeat(eventId.toString())) !== 'confirmed') {
+      break;
+    }
+
+    const booking = await Booking.findOneAndUpdate(
+      { eventId, status: 'waitlisted' },
+      { $set: { status: 'confirmed' } },
+      { sort: { createdAt: 1 }, new: true }
+    );
+
+    // Someone left the waitlist between the check and the update
+    if (!booking) {
+      await releaseSeat(eventId);
+      break;
+    }
+
+    promoted.push(booking);
+  }
+
+  return promoted;
+}
+
+/**
+ * Cancels a booking
+ * When a confirmed booking is cancelled its seat goes to the oldest waitlisted booking,
+ * or back to the event if nobody is waiting
+ *
+ * @param bookingId - ID of the booking to cancel
+ * @returns The cancelled booking and the promoted booking (if any), or null if there was nothing to cancel
+ */
+export async function cancelBooking(
+  bookingId: Types.ObjectId | string
+): Promise<{ cancelled: IBooking; promoted: IBooking | null } | null> {
+  // Returns the booking as it was before the update, so we know whether it held a seat
+  const previous = await Booking.findOneAndUpdate(
+    { _id: bookingId, status: { $ne: 'cancelled' } },
+    { $set: { status: 'cancelled', cancelledAt: new Date() } },
+    { new: false }
+  );
+
+  if (!previous) {
+    return null;
+  }
+
+  // Read before set() below, which changes the status of the same document
+  const heldSeat = previous.status !== 'waitlisted';
+  const cancelled = previous.set({ status: 'cancelled' });
+  let promoted: IBooking | null = null;
+
+  if (heldSeat) {
+    promoted = await Booking.findOneAndUpdate(
+      { eventId: previous.eventId, status: 'waitlisted' },
+      { $set: { status: 'confirmed' } },
+      { sort: { createdAt: 1 }, new: true }
+    );
+
+    if (!promoted) {
+      await releaseSeat(previous.eventId);
+      // A booking waitlisted while this one was cancelled would otherwise wait for a seat that is free
+      [promoted = null] = await fillFromWaitlist(previous.eventId);
+    } else {
+      await notifyPromoted([promoted]);
+    }
+  }
+
+  return { cancelled, promoted };
+}
+
+/**
+ * Emails attendees whose booking moved from the waitlist to confirmed
+ * Their bookings are already saved, so a mail failure is logged instead of failing the caller
+ */
+async function notifyPromoted(bookings: IBooking[]): Promise<void> {
+  for (const booking of bookings) {
+    await sendBookingConfirmation(booking, { promoted: true }).catch((error) => {
+      console.error('Failed to send waitlist promotion email:', error);
+    });
+  }
+}
+
+const CANCEL_TOKEN_PURPOSE = 'cancel-booking';
+const CANCEL_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+/**
+ * Outcome of resolving a cancellation token to a booking
+ */
+export type CancellationLookup =
+  | { status: 'valid'; booking: IBooking; event: IEvent | null }
+  | { status: 'invalid' | 'expired' | 'used' | 'not-found'; message: string };
+
+/**
+ * Creates a signed, expiring cancellation token for a booking
+ *
+ * @param bookingId - ID of the booking the token cancels
+ * @returns URL-safe token
+ */
+export function createCancellationToken(bookingId: Types.ObjectId | string): string {
+  return signToken(CANCEL_TOKEN_PURPOSE, { bookingId: bookingId.toString() }, CANCEL_TOKEN_TTL_SECONDS);
+}
+
+/**
+ * Builds the path of the self-service cancellation page for a booking
+ */
+export function getCancellationPath(bookingId: Types.ObjectId | string): string {
+  return `/bookings/cancel/${createCancellationToken(bookingId)}`;
+}
+
+/**
+ * Resolves a cancellation token to its booking
+ * A token only works once: after the booking is cancelled it reports 'used'
+ *
+ * @param token - Token from the cancellation link
+ * @returns The booking and its event, or the reason the token cannot be used
+ */
+export async function lookupCancellationToken(token: string): Promise<CancellationLookup> {
+  const verification = verifyToken<{ bookingId: string }>(CANCEL_TOKEN_PURPOSE, token);
+
+  if (!verification.valid) {
+    return verification.reason === 'expired'
+      ? { status: 'expired', message: 'This cancellation link has expired. Please contact the organizer to cancel.' }
+      : { status: 'invalid', message: 'This cancellation link is invalid.' };
+  }
+
+  const { bookingId } = verification.payload;
+  const booking = Types.ObjectId.isValid(bookingId) ? await Booking.findById(bookingId) : null;
+
+  if (!booking) {
+    return { status: 'not-found', message: 'This booking no longer exists.' };
+  }
+
+  if (booking.status === 'cancelled') {
+    return { status: 'used', message: 'This booking has already been cancelled.' };
+  }
+
+  const event = await Event.findById(booking.eventId);
+
+  return { status: 'valid', booking, event };
+}
+
+/**
+ * Cancels the booking a cancellation token points to
+ *
+ * @param token - Token from the cancellation link
+ * @returns The lookup result; status 'valid' means the booking was cancelled by this call
+ */
+export async function cancelBookingWithToken(token: string): Promise<CancellationLookup> {
+  const lookup = await lookupCancellationToken(token);
+  if (lookup.status !== 'valid') {
+    return lookup;
+  }
+
+  // cancelBooking only matches non-cancelled bookings, so concurrent requests cannot both succeed
+  const result = await cancelBooking(lookup.booking._id);
+  if (!result) {
+    return { status: 'used', message: 'This booking has already been cancelled.' };
+  }
+
+  return { status: 'valid', booking: result.cancelled, event: lookup.event };
+}
+
+/**
+ * Emails the attendee a confirmation with the event details, their ticket and a cancellation link
+ *
+ * @param booking - Newly created booking (confirmed or waitlisted), or one just promoted from the waitlist
+ * @param options.promoted - The booking moved up from the waitlist
+ */
+export async function sendBookingConfirmation(
+  booking: IBooking,
+  { promoted = false }: { promoted?: boolean } = {}
+): Promise<void> {
+  const event = await Event.findById(booking.eventId);
+  if (!event || booking.status === 'cancelled') {
+    return;
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL ?? '';
+
+  await sendMail({
+    to: booking.email,
+    ...renderBookingConfirmation({
+      event,
+      email: booking.email,
+      status: booking.status,
+      eventUrl: `${baseUrl}/events/${event.slug}`,
+      cancelUrl: `${baseUrl}${getCancellationPath(booking._id)}`,
+      promoted,
+      ticket: booking.ticketCode
+        ? { code: formatTicketCode(booking.ticketCode), qrCode: await renderTicketQrPng(event.slug, booking.ticketCode) }
+        : undefined,
+    }),
+  });
+}
+
+/**
+ * Outcome of checking in a ticket at an event
+ * Every status but 'checked-in' rejects the ticket; the booking is included when one was found
+ */
+export type CheckInResult =
+  | { status: 'checked-in'; booking: IBooking }
+  | {
+      status: 'invalid' | 'not-found' | 'wrong-event' | 'cancelled' | 'waitlisted' | 'already-checked-in';
+      message: string;
+      booking?: IBooking;
+    };
+
+/**
+ * Checks in the booking a ticket belongs to
+ * The update only matches bookings not checked in yet, so a ticket scanned twice
+ * (even at two entrances at once) is accepted only the first time
+ *
+ * @param eventId - ID of the event staff are checking people in for
+ * @param input - Ticket code as typed, or the scanned content of its QR image
+ * @returns The checked-in booking, or the reason the ticket is rejected
+ */
+export async function checkInTicket(eventId: Types.ObjectId | string, input: string): Promise<CheckInResult> {
+  const ticketCode = normalizeTicketCode(input);
+  if (!ticketCode) {
+    return { status: 'invalid', message: 'This is not a valid ticket code.' };
+  }
+
+  const booking = await Booking.findOneAndUpdate(
+    { ticketCode, eventId, checkedInAt: null, ...confirmedMatch },
+    { $set: { checkedInAt: new Date() } },
+    { new: true }
+  );
+
+  if (booking) {
+    return { status: 'checked-in', booking };
+  }
+
+  // Nothing was updated; find out why
+  const existing = await Booking.findOne({ ticketCode });
+
+  if (!existing) {
+    return { status: 'not-found', message: 'No booking has this ticket code.' };
+  }
+  if (existing.eventId.toString() !== eventId.toString()) {
+    // The booking belongs to another organizer's attendee list, so it is not returned
+    return { status: 'wrong-event', message: 'This ticket is for a different event.' };
+  }
+  if (existing.checkedInAt) {
+    return { status: 'already-checked-in', message: 'This ticket has already been checked in.', booking: existing };
+  }
+  if (existing.status === 'cancelled') {
+    return { status: 'cancelled', message: 'This booking has been cancelled.', booking: existing };
+  }
+
+  return { status: 'waitlisted', message: 'This booking is still on the waitlist.', booking: existing };
+}
+
+/**
+ * Attendance of an event compared with its bookings
+ */
+export interface AttendanceStats {
+  booked: number; // Confirmed bookings, including those that checked in
+  checkedIn: number;
+  notCheckedIn: number; // Confirmed bookings that have not shown up (yet)
+  waitlisted: number;
+  cancelled: number;
+  attendanceRate: number | null; // Share of confirmed bookings that checked in, 0-1; null without bookings
+  lastCheckedInAt: Date | null;
+}
+
+/**
+ * Aggregates how many of an event's confirmed bookings have checked in
+ *
+ * @param eventId - ID of the event
+ * @returns Booking and check-in counts
+ */
+export async function getAttendanceStats(eventId: Types.ObjectId | string): Promise<AttendanceStats> {
+  const isConfirmed = { $not: [{ $in: ['$status', ['waitlisted', 'cancelled']] }] };
+  const isCheckedIn = { $ne: [{ $ifNull: ['$checkedInAt', null] }, null] };
+
+  const [counts] = await Booking.aggregate<Omit<AttendanceStats, 'notCheckedIn' | 'attendanceRate'>>([
+    { $match: { eventId: new Types.ObjectId(eventId.toString()) } },
+    {
+      $group: {
+        _id: null,
+        booked: { $sum: { $cond: [isConfirmed, 1, 0] } },
+        checkedIn: { $sum: { $cond: [{ $and: [isConfirmed, isCheckedIn] }, 1, 0] } },
+        waitlisted: { $sum: { $cond: [{ $eq: ['$status', 'waitlisted'] }, 1, 0] } },
+        cancelled: { $sum: { $cond: [{ $eq: ['$status', 'cancelled'] }, 1, 0] } },
+        lastCheckedInAt: { $max: '$checkedInAt' },
+      },
+    },
+    { $project: { _id: 0 } },
+  ]);
+
+  const { booked, checkedIn, waitlisted, cancelled, lastCheckedInAt } =
+    counts ?? { booked: 0, checkedIn: 0, waitlisted: 0, cancelled: 0, lastCheckedInAt: null };
+
+  return {
+    booked,
+    checkedIn,
+    notCheckedIn: booked - checkedIn,
+    waitlisted,
+    cancelled,
+    attendanceRate: booked > 0 ? checkedIn / booked : null,
+    lastCheckedInAt: lastCheckedInAt ?? null,
+  };
+}
+
+/**
+ * Aggregates the booking count and recent activity for one event
+ *
+ * @param eventId - ID of the event
+ * @returns Confirmed and waitlisted bookings, bookings in the last 7 days and the latest booking time
+ */
+export async function getAttendeeSummary(eventId: Types.ObjectId | string): Promise<AttendeeSummary> {
+  const weekAgo = new Date(Date.now() - ONE_WEEK_MS);
+
+  const [summary] = await Booking.aggregate<AttendeeSummary>([
+    { $match: { eventId: new Types.ObjectId(eventId.toString()), status: { $ne: 'cancelled' } } },
+    {
+      $group: {
+        _id: null,
+        total: { $sum: { $cond: [{ $eq: ['$status', 'waitlisted'] }, 0, 1] } },
+        waitlisted: { $sum: { $cond: [{ $eq: ['$status', 'waitlisted'] }, 1, 0] } },
+        joinedThisWeek: { $sum: { $cond: [{ $gte: ['$createdAt', weekAgo] }, 1, 0] } },
+        lastBookedAt: { $max: '$createdAt' },
+      },
+    },
+    { $project: { _id: 0, total: 1, waitlisted: 1, joinedThisWeek: 1, lastBookedAt: 1 } },
+  ]);
+
+  return summary ?? { total: 0, waitlisted: 0, joinedThisWeek: 0, lastBookedAt: null };
+}
+
+/**
+ * Aggregates confirmed booking counts for several events in a single query
+ *
+ * @param eventIds - IDs of the events to count bookings for
+ * @returns Map of event ID (as string) to booking count; events without bookings are absent
+ */
+export async function getBookingCounts(
+  eventIds: Array<Types.ObjectId | string>
+): Promise<Map<string, number>> {
+  if (eventIds.length === 0) {
+    return new Map();
+  }
+
+  const counts = await Booking.aggregate<{ _id: Types.ObjectId; count: number }>([
+    {
+      $match: {
+        eventId: { $in: eventIds.map((id) => new Types.ObjectId(id.toString())) },
+        ...confirmedMatch,
+      },
+    },
+    { $group: { _id: '$eventId', count: { $sum: 1 } } },
+  ]);
+
+  return new Map(counts.map(({ _id, count }) => [_id.toString(), count]));
+}
+
+/**
+ * Attaches a `bookingCount` field to each event
+ *
+ * @param events - Plain event objects (e.g. from `.lean()`)
+ * @returns The same events with their booking count
+ */
+export async function withBookingCounts<T extends { _id: Types.ObjectId | string }>(
+  events: T[]
+): Promise<Array<T & { bookingCount: number }>> {
+  const counts = await getBookingCounts(events.map((event) => event._id));
+
+  return events.map((event) => ({
+    ...event,
+    bookingCount: counts.get(event._id.toString()) ?? 0,
+  }));
+}
@@ -1,3 +1,44 @@
+/**
+ * Allowed values for IEvent.mode
+ * Shared by the Event schema and the Create Event form
+ */
+export const EVENT_MODES = ['online', 'offline', 'hybrid'] as const;
+export type EventMode = (typeof EVENT_MODES)[number];
+
+/**
+ * Rules for uploaded event images
+ * Checked in the Create Event form and again on the server, see lib/storage/image.ts
+ */
+export const IMAGE_UPLOAD_LIMITS = {
+  maxBytes: 5 * 1024 * 1024,
+  contentTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+  minWidth: 400,
+  minHeight: 200,
+  maxWidth: 6000,
+  maxHeight: 6000,
+} as const;
+
+/**
+ * Alternative spellings of a tag, mapped to its canonical name
+ * Keys are compared after normalization (lowercase, spaces as hyphens), see lib/tags.ts
+ */
+export const TAG_ALIASES: Record<string, string> = {
+  'react.js': 'react',
+  reactjs: 'react',
+  'next.js': 'nextjs',
+  next: 'nextjs',
+  'node.js': 'nodejs',
+  node: 'nodejs',
+  'vue.js': 'vue',
+  vuejs: 'vue',
+  js: 'javascript',
+  ts: 'typescript',
+  k8s: 'kubernetes',
+  'artificial-intelligence': 'ai',
+  ml: 'machine-learning',
+  golang: 'go',
+};
+
 export const events = [
   {
     image: '/images/event1.png',
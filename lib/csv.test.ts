@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { CsvParseError, formatCsvRow, parseCsv } from './csv';
+
+describe('formatCsvRow', () => {
+  it('quotes fields with commas, quotes or line breaks', () => {
+    expect(formatCsvRow(['Hall A, Berlin', 'The "big" one', 'two\nlines', null, 5])).toBe(
+      '"Hall A, Berlin","The ""big"" one","two\nlines",,5\r\n'
+    );
+  });
+
+  it.each(['=HYPERLINK("https://evil.test")', '+1', '-1+2', '@SUM(A1)', '\tcmd', '\rcmd'])(
+    'puts a quote before formula-like text %j',
+    (value) => {
+      expect(formatCsvRow([value])).toMatch(/^"?'/);
+    }
+  );
+
+  it('leaves numbers and plain text alone', () => {
+    expect(formatCsvRow([-5, 'ada@example.com', "it's"])).toBe("-5,ada@example.com,it's\r\n");
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads rows keyed by the trimmed header, skipping blank lines', () => {
+    expect(parseCsv('\uFEFF title , venue\r\nNode Summit,"Hall A, Berlin"\r\n\r\nDeno Day,\n')).toEqual([
+      { title: 'Node Summit', venue: 'Hall A, Berlin' },
+      { title: 'Deno Day', venue: '' },
+    ]);
+  });
+
+  it('reads back formula-like text exactly as it was exported', () => {
+    const values = ['=1+1', '-y', '@z', "'=already quoted", "it's"];
+    const columns = values.map((_, i) => `c${i}`);
+
+    const [row] = parseCsv(formatCsvRow(columns) + formatCsvRow(values));
+
+    expect(columns.map((column) => row[column])).toEqual(values);
+  });
+
+  it('reports the line of malformed rows', () => {
+    expect(() => parseCsv('title\nNode Summit,extra')).toThrow(new CsvParseError('Row has 2 fields but the header has 1', 2));
+    expect(() => parseCsv('title\nNode "Summit"')).toThrow(CsvParseError);
+  });
+});
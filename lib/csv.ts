@@ -0,0 +1,144 @@
+/**
+ * Minimal CSV reading and writing (RFC 4180)
+ * Fields are separated by commas; fields containing commas, quotes or line breaks are quoted,
+ * with quotes inside them doubled
+ */
+
+/**
+ * Error thrown when CSV text cannot be parsed
+ */
+export class CsvParseError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'CsvParseError';
+  }
+}
+
+interface CsvRow {
+  fields: string[];
+  line: number; // Line the row starts on; quoted fields may span several lines
+}
+
+/**
+ * Splits CSV text into rows of fields
+ * Accepts CRLF and LF line endings and a leading byte order mark
+ */
+function parseRows(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (field.length > 0) {
+        throw new CsvParseError('Unexpected quote inside an unquoted field', line);
+      }
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ fields: row, line: rowLine });
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CsvParseError('Unterminated quoted field', line);
+  }
+
+  // The last line may or may not end with a line break
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push({ fields: row, line: rowLine });
+  }
+
+  return rows;
+}
+
+/**
+ * Text that spreadsheets would run as a formula when opening the file (CSV injection)
+ * Text already behind quotes matches too, so the quote added on export can always be removed on import
+ */
+const FORMULA_PATTERN = /^'*[=+\-@\t\r]/;
+
+/**
+ * Removes the quote that formatField puts before formula-like text, so exported files import unchanged
+ */
+function unescapeFormula(field: string): string {
+  return field.startsWith("'") && FORMULA_PATTERN.test(field.slice(1)) ? field.slice(1) : field;
+}
+
+/**
+ * Parses CSV text whose first row holds the column names
+ * Blank lines are skipped
+ *
+ * @param text - CSV text
+ * @returns One object per data row, keyed by column name
+ * @throws CsvParseError if the text is not valid CSV or a row has more fields than the header
+ */
+export function parseCsv(text: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseRows(text).filter(({ fields }) => fields.some((field) => field.trim() !== ''));
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.fields.map((column) => column.trim());
+
+  return rows.map(({ fields, line }) => {
+    if (fields.length > columns.length) {
+      throw new CsvParseError(`Row has ${fields.length} fields but the header has ${columns.length}`, line);
+    }
+
+    return Object.fromEntries(columns.map((column, i) => [column, unescapeFormula(fields[i] ?? '')]));
+  });
+}
+
+/**
+ * Formats a single CSV field, quoting it when needed
+ * Text that starts like a formula is prefixed with a quote, so spreadsheets show it as text
+ */
+function formatField(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PATTERN.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats one CSV line, ending with CRLF
+ *
+ * @param values - Field values; null and undefined become empty fields
+ */
+export function formatCsvRow(values: unknown[]): string {
+  return values.map(formatField).join(',') + '\r\n';
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { isValidDate, isValidTime, utcToZonedTime, zonedTimeToUtc } from './datetime';
+
+describe('isValidDate', () => {
+  it.each(['2025-01-31', '2024-02-29', '2000-02-29'])('accepts %s', (date) => {
+    expect(isValidDate(date)).toBe(true);
+  });
+
+  it.each(['2025-02-29', '2025-02-30', '2025-04-31', '2025-13-01', '2025-00-10', '2025-1-5', '05/01/2025', ''])(
+    'rejects %j',
+    (date) => {
+      expect(isValidDate(date)).toBe(false);
+    }
+  );
+});
+
+describe('isValidTime', () => {
+  it.each(['00:00', '9:30', '23:59', '18:30:00', '9:30 pm', '12:00AM'])('accepts %s', (time) => {
+    expect(isValidTime(time)).toBe(true);
+  });
+
+  it.each(['24:00', '25:99', '12:60', '13:00 pm', '0:30 am', 'noon', ''])('rejects %j', (time) => {
+    expect(isValidTime(time)).toBe(false);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('converts wall-clock time in a timezone to UTC', () => {
+    expect(zonedTimeToUtc('2025-07-01', '09:00', 'Europe/Amsterdam').toISOString()).toBe('2025-07-01T07:00:00.000Z');
+    expect(zonedTimeToUtc('2025-01-15', '09:00', 'America/New_York').toISOString()).toBe('2025-01-15T14:00:00.000Z');
+  });
+
+  it('resolves times on the day daylight saving time starts', () => {
+    expect(zonedTimeToUtc('2025-03-30', '12:00', 'Europe/Amsterdam').toISOString()).toBe('2025-03-30T10:00:00.000Z');
+  });
+
+  it.each([
+    ['2025-02-30', '10:00'],
+    ['2025-03-01', '25:99'],
+    ['2025-03-01', '24:00'],
+    ['2025-03-01', '9:00'],
+  ])('rejects %s %s instead of rolling over', (date, time) => {
+    expect(() => zonedTimeToUtc(date, time, 'UTC')).toThrow(`Invalid date/time: ${date} ${time}`);
+  });
+
+  it('round-trips with utcToZonedTime', () => {
+    const instant = zonedTimeToUtc('2025-10-26', '18:45', 'Asia/Tokyo');
+
+    expect(utcToZonedTime(instant, 'Asia/Tokyo')).toEqual({ date: '2025-10-26', time: '18:45' });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Timezone helpers built on Intl, so they work on the server and in the browser
+ * Event times are entered as wall-clock date/time in the event's IANA timezone
+ * and stored as a UTC instant
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+/**
+ * Duration assumed for events saved without an end date or time
+ */
+export const DEFAULT_EVENT_DURATION_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Checks whether a string is a valid IANA timezone name (e.g. "Europe/Amsterdam")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads a YYYY-MM-DD date, rejecting days that do not exist (e.g. 2025-02-30)
+ *
+ * @returns Year, month (1-12) and day, or null if the string is not a real calendar date
+ */
+function parseDateParts(date: string): { year: number; month: number; day: number } | null {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = match.slice(1).map(Number);
+
+  // Date.UTC rolls out-of-range days over into the next month, so a changed day means it did not exist
+  const utc = new Date(Date.UTC(year, month - 1, day));
+  if (utc.getUTCFullYear() !== year || utc.getUTCMonth() !== month - 1 || utc.getUTCDate() !== day) {
+    return null;
+  }
+
+  return { year, month, day };
+}
+
+/**
+ * Checks whether a string is a real calendar date in YYYY-MM-DD format
+ */
+export function isValidDate(date: string): boolean {
+  return parseDateParts(date) !== null;
+}
+
+/**
+ * Checks whether a string is a time of day: 24-hour HH:MM (00:00-23:59, seconds optional)
+ * or 12-hour h:mm AM/PM
+ */
+export function isValidTime(time: string): boolean {
+  return /^([01]?\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(time) || /^(0?[1-9]|1[0-2]):[0-5]\d\s*[ap]m$/i.test(time);
+}
+
+/**
+ * Splits an instant into its wall-clock parts in a timezone
+ */
+function getZonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * Returns the offset of a timezone from UTC at a given instant, in milliseconds
+ */
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Converts a wall-clock date and time in a timezone to a UTC instant
+ * Runs the offset lookup twice so times near a DST change resolve correctly
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param time - Time in HH:MM format
+ * @param timeZone - IANA timezone the date and time are expressed in
+ * @returns UTC instant
+ * @throws Error if the date does not exist or the time is out of range
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const dateParts = parseDateParts(date);
+  const timeMatch = time.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+  // Out-of-range parts would silently roll over in Date.UTC (25:99 on Feb 30 -> Mar 3, 02:39)
+  if (!dateParts || !timeMatch) {
+    throw new Error(`Invalid date/time: ${date} ${time}`);
+  }
+
+  const wallClock = Date.UTC(
+    dateParts.year,
+    dateParts.month - 1,
+    dateParts.day,
+    Number(timeMatch[1]),
+    Number(timeMatch[2])
+  );
+
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+
+  return new Date(wallClock - offset);
+}
+
+/**
+ * Converts a UTC instant to wall-clock date (YYYY-MM-DD) and time (HH:MM) strings in a timezone
+ */
+export function utcToZonedTime(instant: Date, timeZone: string): { date: string; time: string } {
+  const { year, month, day, hour, minute } = getZonedParts(instant, timeZone);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return {
+    date: `${year}-${pad(month)}-${pad(day)}`,
+    time: `${pad(hour)}:${pad(minute)}`,
+  };
+}
+
+/**
+ * Formats the date part of an instant, e.g. "Fri, Jun 14, 2024"
+ *
+ * @param instant - Instant to format
+ * @param timeZone - Timezone to show the date in; the runtime's timezone when omitted
+ */
+export function formatEventDate(instant: Date | string, timeZone?: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  }).format(new Date(instant));
+}
+
+/**
+ * Formats the time part of an instant with its timezone abbreviation, e.g. "9:00 AM GMT+2"
+ *
+ * @param instant - Instant to format
+ * @param timeZone - Timezone to show the time in; the runtime's timezone when omitted
+ */
+export function formatEventTime(instant: Date | string, timeZone?: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(instant));
+}
+
+/**
+ * Formats the dates an event spans, e.g. "Fri, Jun 14 – Sun, Jun 16, 2024"
+ * Falls back to a single date when the event starts and ends on the same day
+ *
+ * @param start - Start instant
+ * @param end - End instant; a single date is shown when omitted
+ * @param timeZone - Timezone to show the dates in; the runtime's timezone when omitted
+ */
+export function formatEventDateRange(start: Date | string, end?: Date | string | null, timeZone?: string): string {
+  if (!end) {
+    return formatEventDate(start, timeZone);
+  }
+
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  }).formatRange(new Date(start), new Date(end));
+}
+
+/**
+ * Formats an event's start and end times, e.g. "9:00 AM – 5:00 PM GMT+2"
+ * For multi-day events each end of the range carries its own timezone abbreviation
+ *
+ * @param start - Start instant
+ * @param end - End instant; only the start time is shown when omitted
+ * @param timeZone - Timezone to show the times in; the runtime's timezone when omitted
+ */
+export function formatEventTimeRange(start: Date | string, end?: Date | string | null, timeZone?: string): string {
+  if (!end) {
+    return formatEventTime(start, timeZone);
+  }
+
+  const zone = timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const sameDay = utcToZonedTime(new Date(start), zone).date === utcToZonedTime(new Date(end), zone).date;
+
+  if (!sameDay) {
+    return `${formatEventTime(start, timeZone)} – ${formatEventTime(end, timeZone)}`;
+  }
+
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).formatRange(new Date(start), new Date(end));
+}
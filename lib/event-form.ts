@@ -0,0 +1,156 @@
+import { EVENT_MODES, IMAGE_UPLOAD_LIMITS, type EventMode } from './constants';
+import { isValidDate, isValidTime, isValidTimeZone, zonedTimeToUtc } from './datetime';
+
+/**
+ * Values edited by the Create Event form
+ * Mirrors IEvent, minus the fields the server derives (slug, startsAt, endsAt, owner...)
+ */
+export interface EventFormValues {
+  title: string;
+  description: string;
+  overview: string;
+  image: File | null;
+  venue: string;
+  location: string;
+  date: string;
+  time: string;
+  endDate: string;
+  endTime: string;
+  timezone: string;
+  mode: EventMode | '';
+  capacity: string;
+  audience: string;
+  agenda: string[];
+  organizer: string;
+  tags: string[];
+}
+
+export type EventFormField = keyof EventFormValues;
+export type EventFormErrors = Partial<Record<EventFormField, string>>;
+
+/**
+ * Form steps and the fields each one edits
+ */
+export const EVENT_FORM_STEPS: Array<{ title: string; fields: EventFormField[] }> = [
+  { title: 'Basics', fields: ['title', 'description', 'overview', 'image'] },
+  {
+    title: 'When & Where',
+    fields: ['date', 'time', 'endDate', 'endTime', 'timezone', 'venue', 'location', 'mode', 'capacity'],
+  },
+  { title: 'Details', fields: ['audience', 'organizer', 'agenda', 'tags'] },
+];
+
+/**
+ * Required text fields and the messages eventSchema uses for them
+ */
+const requiredTextFields: Array<[EventFormField, string]> = [
+  ['title', 'Title is required'],
+  ['description', 'Description is required'],
+  ['overview', 'Overview is required'],
+  ['venue', 'Venue is required'],
+  ['location', 'Location is required'],
+  ['date', 'Date is required'],
+  ['time', 'Time is required'],
+  ['audience', 'Audience is required'],
+  ['organizer', 'Organizer is required'],
+];
+
+/**
+ * Validates the form against the same rules as eventSchema
+ * so most mistakes are caught before the request is sent
+ *
+ * @param values - Current form values
+ * @returns Error message per invalid field; empty when the form is valid
+ */
+export function validateEventForm(values: EventFormValues): EventFormErrors {
+  const errors: EventFormErrors = {};
+
+  for (const [field, message] of requiredTextFields) {
+    if (String(values[field] ?? '').trim().length === 0) {
+      errors[field] = message;
+    }
+  }
+
+  if (!values.image) {
+    errors.image = 'Image is required';
+  } else if (!(IMAGE_UPLOAD_LIMITS.contentTypes as readonly string[]).includes(values.image.type)) {
+    errors.image = 'Image must be a JPEG, PNG, WebP or GIF file';
+  } else if (values.image.size > IMAGE_UPLOAD_LIMITS.maxBytes) {
+    errors.image = `Image must be at most ${IMAGE_UPLOAD_LIMITS.maxBytes / (1024 * 1024)} MB`;
+  }
+
+  if (!EVENT_MODES.includes(values.mode as EventMode)) {
+    errors.mode = `Mode must be one of: ${EVENT_MODES.join(', ')}`;
+  }
+
+  if (values.agenda.filter((item) => item.trim().length > 0).length === 0) {
+    errors.agenda = 'Agenda must be a non-empty array';
+  }
+
+  if (values.tags.filter((tag) => tag.trim().length > 0).length === 0) {
+    errors.tags = 'Tags must be a non-empty array';
+  }
+
+  if (!errors.date && !isValidDate(values.date)) {
+    errors.date = 'Date must be a valid date (YYYY-MM-DD)';
+  }
+
+  if (!errors.time && !isValidTime(values.time)) {
+    errors.time = 'Time must be in HH:MM (00:00-23:59) or h:mm AM/PM format';
+  }
+
+  if (values.endDate && !isValidDate(values.endDate)) {
+    errors.endDate = 'End date must be a valid date (YYYY-MM-DD)';
+  }
+
+  if (values.endTime && !isValidTime(values.endTime)) {
+    errors.endTime = 'End time must be in HH:MM (00:00-23:59) or h:mm AM/PM format';
+  }
+
+  if (!isValidTimeZone(values.timezone)) {
+    errors.timezone = `${values.timezone} is not a valid IANA timezone`;
+  }
+
+  if (values.capacity.trim() !== '') {
+    const capacity = Number(values.capacity);
+    if (!Number.isInteger(capacity)) {
+      errors.capacity = 'Capacity must be a whole number';
+    } else if (capacity < 1) {
+      errors.capacity = 'Capacity must be at least 1';
+    }
+  }
+
+  // Same check as the pre-save hook: the event must end after it starts
+  // zonedTimeToUtc reads HH:MM, as the time inputs give it; other valid formats are left to the server
+  const isHourMinute = [values.time, values.endTime].every((time) => !time || /^\d{2}:\d{2}$/.test(time));
+  if (
+    isHourMinute &&
+    !errors.date && !errors.time && !errors.endDate && !errors.endTime && !errors.timezone &&
+    (values.endDate || values.endTime)
+  ) {
+    const startsAt = zonedTimeToUtc(values.date, values.time, values.timezone);
+    const endsAt = zonedTimeToUtc(values.endDate || values.date, values.endTime || values.time, values.timezone);
+    if (endsAt <= startsAt) {
+      errors.endTime = 'Event end must be after its start';
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Maps a server-side validation path to the form field it belongs to
+ * e.g. "agenda.0" -> "agenda", "endsAt" -> "endTime"
+ */
+export function toFormField(path: string): EventFormField | null {
+  const [root] = path.split('.');
+  const aliases: Record<string, EventFormField> = {
+    startsAt: 'time',
+    endsAt: 'endTime',
+  };
+
+  const field = aliases[root] ?? root;
+  return EVENT_FORM_STEPS.some((step) => step.fields.includes(field as EventFormField))
+    ? (field as EventFormField)
+    : null;
+}
@@ -0,0 +1,211 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Types } from 'mongoose';
+import { Event, User, type IEvent } from '@/database';
+import { EventImportError, importEvents, parseImportFile } from './event-transfer';
+import { ImageValidationError, deleteImage, importImage } from './storage';
+import { fillFromWaitlist } from './bookings';
+
+/**
+ * Bulk import against stubbed model calls: rows are validated in full before anything is written,
+ * and an import is only reported as applied when every row was written
+ */
+
+vi.mock('./storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./storage')>()),
+  importImage: vi.fn(),
+  deleteImage: vi.fn(),
+}));
+
+vi.mock('./bookings', () => ({ fillFromWaitlist: vi.fn() }));
+
+const owner = User.hydrate({ _id: new Types.ObjectId(), name: 'Ada', email: 'ada@example.com' });
+
+/**
+ * A valid row as read from CSV, where every value is text
+ */
+function row(fields: Record<string, string> = {}) {
+  return {
+    title: 'Node Summit',
+    description: 'Two days of Node.js talks',
+    overview: 'Talks and workshops',
+    image: 'https://images.test/node.png',
+    venue: 'Hall A',
+    location: 'Berlin',
+    date: '2099-05-01',
+    time: '09:00',
+    mode: 'offline',
+    audience: 'Developers',
+    agenda: '["Keynote","Workshops"]',
+    organizer: 'Node Org',
+    tags: 'node,javascript',
+    ...fields,
+  };
+}
+
+function existingEvent(fields: Record<string, unknown> = {}) {
+  return Event.hydrate({
+    ...row(),
+    _id: new Types.ObjectId(),
+    slug: 'node-summit',
+    previousSlugs: [],
+    agenda: ['Keynote', 'Workshops'],
+    tags: ['node', 'javascript'],
+    timezone: 'UTC',
+    owner: owner._id,
+    capacity: 50,
+    imageKey: 'events/old.png',
+    ...fields,
+  });
+}
+
+let saved: IEvent[];
+
+beforeEach(() => {
+  saved = [];
+  vi.spyOn(Event, 'find').mockResolvedValue([]);
+  vi.spyOn(Event.prototype, 'save').mockImplementation(async function (this: IEvent) {
+    saved.push(this);
+    return this;
+  });
+  vi.mocked(importImage).mockReset().mockImplementation(async (url) => ({
+    url: `https://cdn.test/${url.split('/').pop()}`,
+    key: `events/${url.split('/').pop()}`,
+  }));
+  vi.mocked(deleteImage).mockReset();
+  vi.mocked(fillFromWaitlist).mockReset();
+});
+
+describe('importEvents', () => {
+  it('reports what would happen in a dry run without writing or downloading', async () => {
+    const report = await importEvents([row(), row({ title: 'Deno Day' })], { owner, dryRun: true });
+
+    expect(report).toMatchObject({ dryRun: true, applied: false, written: 0, created: 2, failed: 0 });
+    expect(saved).toHaveLength(0);
+    expect(importImage).not.toHaveBeenCalled();
+  });
+
+  it('checks rows against the model in a dry run, not only the request schema', async () => {
+    const report = await importEvents([row({ endDate: '2099-04-30', endTime: '10:00' })], { owner, dryRun: true });
+
+    expect(report.failed).toBe(1);
+    expect(report.rows[0].errors).toHaveProperty('endsAt');
+  });
+
+  it('rejects impossible dates and times', async () => {
+    const report = await importEvents([row({ date: '2099-02-30' }), row({ title: 'Deno Day', time: '25:99' })], {
+      owner,
+      dryRun: true,
+    });
+
+    expect(report.rows.map(({ errors }) => Object.keys(errors ?? {}))).toEqual([['date'], ['time']]);
+  });
+
+  it('writes every row and stores its image when all rows are valid', async () => {
+    const report = await importEvents([row(), row({ title: 'Deno Day' })], { owner, dryRun: false });
+
+    expect(report).toMatchObject({ applied: true, written: 2, created: 2, failed: 0 });
+    expect(saved.map(({ slug }) => slug)).toEqual(['node-summit', 'deno-day']);
+    expect(saved[0].image).toBe('https://cdn.test/node.png');
+    expect(saved[0].imageKey).toBe('events/node.png');
+  });
+
+  it('writes nothing when any row is invalid', async () => {
+    const report = await importEvents([row(), row({ title: 'Deno Day', mode: 'remote' })], { owner, dryRun: false });
+
+    expect(report).toMatchObject({ applied: false, written: 0, failed: 1 });
+    expect(report.rows[1].errors).toHaveProperty('mode');
+    expect(saved).toHaveLength(0);
+    expect(importImage).not.toHaveBeenCalled();
+  });
+
+  it('writes nothing and removes the stored images when an image cannot be fetched', async () => {
+    vi.mocked(importImage)
+      .mockResolvedValueOnce({ url: 'https://cdn.test/node.png', key: 'events/node.png' })
+      .mockRejectedValueOnce(new ImageValidationError('Image could not be downloaded'));
+
+    const report = await importEvents([row(), row({ title: 'Deno Day' })], { owner, dryRun: false });
+
+    expect(report).toMatchObject({ applied: false, written: 0, failed: 1 });
+    expect(report.rows[1].errors).toEqual({ image: 'Image could not be downloaded' });
+    expect(saved).toHaveLength(0);
+    expect(deleteImage).toHaveBeenCalledWith('events/node.png');
+  });
+
+  it('does not report a partial write as applied', async () => {
+    vi.mocked(Event.prototype.save)
+      .mockImplementationOnce(async function (this: IEvent) {
+        saved.push(this);
+        return this;
+      })
+      .mockRejectedValueOnce(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+
+    const report = await importEvents([row(), row({ title: 'Deno Day', image: 'https://images.test/deno.png' })], {
+      owner,
+      dryRun: false,
+    });
+
+    expect(report).toMatchObject({ applied: false, written: 1, failed: 1 });
+    expect(report.rows[1].errors).toEqual({ slug: 'An event with this slug was created while importing' });
+    // The image of the row that was not written is removed again
+    expect(deleteImage).toHaveBeenCalledWith('events/deno.png');
+    expect(deleteImage).not.toHaveBeenCalledWith('events/node.png');
+  });
+
+  it('leaves fields of empty cells unchanged when updating an event', async () => {
+    const event = existingEvent();
+    vi.spyOn(Event, 'find').mockResolvedValue([event]);
+
+    const report = await importEvents([row({ capacity: '', venue: 'Hall B' })], { owner, dryRun: false });
+
+    expect(report).toMatchObject({ applied: true, updated: 1 });
+    expect(event.capacity).toBe(50);
+    expect(event.venue).toBe('Hall B');
+    // The image URL is the one the event already has, so it is not downloaded again
+    expect(importImage).not.toHaveBeenCalled();
+    expect(fillFromWaitlist).not.toHaveBeenCalled();
+  });
+
+  it('fills the waitlist when an update raises the capacity', async () => {
+    const event = existingEvent();
+    vi.spyOn(Event, 'find').mockResolvedValue([event]);
+
+    await importEvents([row({ capacity: '80' })], { owner, dryRun: false });
+
+    expect(event.capacity).toBe(80);
+    expect(fillFromWaitlist).toHaveBeenCalledWith(event._id);
+  });
+
+  it('does not update events of other organizers', async () => {
+    vi.spyOn(Event, 'find').mockResolvedValue([existingEvent({ owner: new Types.ObjectId() })]);
+
+    const report = await importEvents([row()], { owner, dryRun: false });
+
+    expect(report.rows[0].errors).toEqual({ slug: 'Slug "node-summit" belongs to an event you do not own' });
+    expect(saved).toHaveLength(0);
+  });
+
+  it('rejects two rows with the same slug', async () => {
+    const report = await importEvents([row(), row()], { owner, dryRun: true });
+
+    expect(report.rows[1].errors).toEqual({ slug: 'Slug "node-summit" is also used on row 1' });
+  });
+});
+
+describe('parseImportFile', () => {
+  it('reads CSV rows keyed by the header', () => {
+    expect(parseImportFile('title,capacity\r\nNode Summit,\r\n', 'csv')).toEqual([{ title: 'Node Summit', capacity: '' }]);
+  });
+
+  it('reads JSON as written by the export', () => {
+    expect(parseImportFile('{"events":[{"title":"Node Summit"}]}', 'json')).toEqual([{ title: 'Node Summit' }]);
+  });
+
+  it.each([
+    ['title\n"Node', 'csv', 'Invalid CSV: Unterminated quoted field (line 2)'],
+    ['{', 'json', 'Invalid JSON'],
+    ['{"title":"Node Summit"}', 'json', 'JSON must be an array of events or an object with an events array'],
+    ['[]', 'json', 'The file contains no events'],
+  ] as const)('rejects %j', (text, format, message) => {
+    expect(() => parseImportFile(text, format)).toThrow(new EventImportError(message));
+  });
+});
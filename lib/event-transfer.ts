@@ -0,0 +1,374 @@
+import mongoose, { Types } from 'mongoose';
+import { Event, RESERVED_SLUGS, generateSlug, type IEvent, type IUser } from '@/database';
+import { ApiError, type FieldErrors } from './api/errors';
+import { isEventOwner } from './auth';
+import { fillFromWaitlist } from './bookings';
+import { CsvParseError, parseCsv } from './csv';
+import { EDITABLE_EVENT_FIELDS, streamEvents, type EventQuery } from './events';
+import { createExportStream, type TransferFormat } from './export-stream';
+import { ImageValidationError, deleteImage, importImage, type StoredImage } from './storage';
+import { fieldErrorsFromMongoose, validate } from './validation';
+import { importEventSchema, type ImportEventInput } from './validation/event';
+
+/**
+ * Bulk import and export of events as CSV or JSON
+ * Both use the same fields, so an export can be edited and imported again
+ * In CSV, agenda and tags are JSON arrays; tags may also be comma-separated
+ */
+
+export const MAX_IMPORT_ROWS = 1000;
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Columns of an export, in order
+ * slug identifies the event on import; the derived fields at the end are ignored on import
+ */
+export const EXPORT_FIELDS = ['slug', ...EDITABLE_EVENT_FIELDS, 'startsAt', 'endsAt', 'createdAt', 'updatedAt'] as const;
+
+/**
+ * Fields that are derived or managed by the app; they are accepted in an import so
+ * an export can be imported as-is, but their values are ignored
+ */
+const IGNORED_IMPORT_FIELDS = [
+  '_id',
+  '__v',
+  'previousSlugs',
+  'imageKey',
+  'startsAt',
+  'endsAt',
+  'owner',
+  'seatsTaken',
+  'createdAt',
+  'updatedAt',
+];
+
+/**
+ * Error thrown when an import file cannot be read as a list of events; responds 400
+ */
+export class EventImportError extends ApiError {
+  constructor(message: string) {
+    super(400, 'BAD_REQUEST', message);
+    this.name = 'EventImportError';
+  }
+}
+
+/**
+ * Outcome of one row of an import
+ * row is 1-based and counts data rows only, so in a spreadsheet it is one above its row number
+ */
+export interface ImportRowResult {
+  row: number;
+  slug: string | null;
+  action: 'create' | 'update' | 'error';
+  errors?: FieldErrors;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  // true only when every row was written; invalid rows stop the import before anything is written
+  applied: boolean;
+  written: number; // Rows saved; less than created + updated only when a write fails
+  created: number;
+  updated: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+/**
+ * Picks the format of an import from a file name or content type
+ *
+ * @returns The format, or null if it is neither CSV nor JSON
+ */
+export function detectTransferFormat(nameOrType: string | null | undefined): TransferFormat | null {
+  const value = nameOrType?.toLowerCase() ?? '';
+
+  if (value.endsWith('.csv') || value.includes('text/csv')) return 'csv';
+  if (value.endsWith('.json') || value.includes('application/json')) return 'json';
+
+  return null;
+}
+
+/**
+ * Reads the rows of an import file
+ * JSON may be an array of events or an object with an events array, as written by the export
+ *
+ * @throws EventImportError if the file cannot be parsed or has too many rows
+ */
+export function parseImportFile(text: string, format: TransferFormat): unknown[] {
+  let rows: unknown;
+
+  if (format === 'csv') {
+    try {
+      rows = parseCsv(text);
+    } catch (error) {
+      if (error instanceof CsvParseError) {
+        throw new EventImportError(`Invalid CSV: ${error.message}`);
+      }
+      throw error;
+    }
+  } else {
+    try {
+      const parsed = JSON.parse(text);
+      rows = Array.isArray(parsed) ? parsed : parsed?.events;
+    } catch {
+      throw new EventImportError('Invalid JSON');
+    }
+  }
+
+  if (!Array.isArray(rows)) {
+    throw new EventImportError('JSON must be an array of events or an object with an events array');
+  }
+
+  if (rows.length === 0) {
+    throw new EventImportError('The file contains no events');
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new EventImportError(`An import can contain at most ${MAX_IMPORT_ROWS} events`);
+  }
+
+  return rows;
+}
+
+/**
+ * Validates one row, ignoring derived fields
+ * Empty cells count as not given, so they leave the field of an existing event unchanged
+ * (capacity included: only an explicit JSON null makes it unlimited)
+ */
+function validateRow(row: unknown) {
+  if (!row || typeof row !== 'object' || Array.isArray(row)) {
+    return { success: false as const, errors: { _: 'Row must be an object' } };
+  }
+
+  const fields = Object.fromEntries(
+    Object.entries(row).filter(
+      ([key, value]) => !IGNORED_IMPORT_FIELDS.includes(key) && !(typeof value === 'string' && value.trim() === '')
+    )
+  );
+
+  return validate(importEventSchema, fields);
+}
+
+/**
+ * Creates or updates the events of an import, matched by slug
+ * Rows without a slug use the slug their title would get
+ * Every row is validated first, against the request schema and then the model (derived schedule included);
+ * if any row is invalid, or in a dry run, nothing is written
+ *
+ * @param rows - Rows read by parseImportFile
+ * @param options.owner - Organizer importing the events; they own new events and may only update their own
+ * @param options.dryRun - Only report what would happen
+ * @returns The outcome of every row
+ */
+export async function importEvents(
+  rows: unknown[],
+  { owner, dryRun }: { owner: IUser; dryRun: boolean }
+): Promise<ImportReport> {
+  const results: ImportRowResult[] = [];
+  const valid: Array<{ result: ImportRowResult; slug: string; data: ImportEventInput }> = [];
+  const rowsBySlug = new Map<string, number>();
+
+  rows.forEach((row, index) => {
+    const result: ImportRowResult = { row: index + 1, slug: null, action: 'error' };
+    results.push(result);
+
+    const parsed = validateRow(row);
+    if (!parsed.success) {
+      result.errors = parsed.errors;
+      return;
+    }
+
+    const slug = parsed.data.slug ?? generateSlug(parsed.data.title);
+    if (!slug) {
+      result.errors = { title: 'Title must contain letters or digits to form a slug' };
+      return;
+    }
+    result.slug = slug;
+
+    const firstRow = rowsBySlug.get(slug);
+    if (firstRow !== undefined) {
+      result.errors = { slug: `Slug "${slug}" is also used on row ${firstRow}` };
+      return;
+    }
+    rowsBySlug.set(slug, result.row);
+
+    if (RESERVED_SLUGS.includes(slug)) {
+      result.errors = { slug: `Slug "${slug}" is reserved` };
+      return;
+    }
+
+    valid.push({ result, slug, data: parsed.data });
+  });
+
+  // Slugs kept in an event's history still belong to it, so they match too
+  const slugs = valid.map(({ slug }) => slug);
+  const existing = await Event.find({ $or: [{ slug: { $in: slugs } }, { previousSlugs: { $in: slugs } }] });
+  const eventsBySlug = new Map<string, IEvent>();
+  for (const event of existing) {
+    for (const slug of [event.slug, ...event.previousSlugs]) {
+      eventsBySlug.set(slug, event);
+    }
+  }
+
+  const updatedEvents = new Set<string>();
+  for (const { result, slug } of valid) {
+    const event = eventsBySlug.get(slug);
+    if (!event) {
+      result.action = 'create';
+    } else if (!isEventOwner(owner, event)) {
+      result.errors = { slug: `Slug "${slug}" belongs to an event you do not own` };
+    } else if (updatedEvents.has(event._id.toString())) {
+      result.errors = { slug: `Slug "${slug}" refers to an event updated by another row` };
+    } else {
+      updatedEvents.add(event._id.toString());
+      result.action = 'update';
+    }
+  }
+
+  // Build every event and run the full model validation (including the derived schedule) before writing,
+  // so a dry run reports every error a real import would hit and a real import writes all rows or none
+  const pending: Array<{
+    result: ImportRowResult;
+    event: IEvent;
+    previousCapacity: number | null | undefined;
+    previousImageKey: string | null | undefined;
+  }> = [];
+
+  for (const { result, slug, data } of valid) {
+    if (result.errors) continue;
+
+    // Fields left empty are not changed
+    const fields = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+    let event: IEvent;
+
+    if (result.action === 'create') {
+      event = new Event({ ...fields, slug, owner: owner._id });
+    } else {
+      event = eventsBySlug.get(slug) as IEvent;
+      // The slug only identified the event; it changes with the title, as in an edit
+      delete fields.slug;
+    }
+
+    const previousCapacity = event.capacity;
+    const previousImageKey = event.imageKey;
+    if (result.action === 'update') {
+      event.set(fields);
+    }
+
+    try {
+      await event.validate();
+      pending.push({ result, event, previousCapacity, previousImageKey });
+    } catch (error) {
+      if (!(error instanceof mongoose.Error.ValidationError)) {
+        throw error;
+      }
+      result.action = 'error';
+      result.errors = fieldErrorsFromMongoose(error);
+    }
+  }
+
+  let written = 0;
+
+  const report = (): ImportReport => {
+    const failed = results.filter((result) => result.errors).length;
+
+    return {
+      dryRun,
+      applied: !dryRun && failed === 0,
+      written,
+      created: results.filter((result) => !result.errors && result.action === 'create').length,
+      updated: results.filter((result) => !result.errors && result.action === 'update').length,
+      failed,
+      rows: results,
+    };
+  };
+
+  if (dryRun || results.some((result) => result.errors)) {
+    return report();
+  }
+
+  // Image URLs are downloaded and stored like uploads, before any event is written,
+  // so an image that cannot be fetched stops the import with nothing written
+  // Rows that keep an event's current image (e.g. an export imported again) are not downloaded
+  const storedImages = new Map<IEvent, StoredImage>();
+  for (const { result, event } of pending) {
+    if (!event.isNew && !event.isModified('image')) continue;
+
+    try {
+      storedImages.set(event, await importImage(event.image));
+    } catch (error) {
+      if (!(error instanceof ImageValidationError)) {
+        await Promise.all([...storedImages.values()].map((image) => deleteImage(image.key)));
+        throw error;
+      }
+      result.action = 'error';
+      result.errors = { image: error.message };
+    }
+  }
+
+  if (results.some((result) => result.errors)) {
+    await Promise.all([...storedImages.values()].map((image) => deleteImage(image.key)));
+    return report();
+  }
+
+  for (const { result, event, previousCapacity, previousImageKey } of pending) {
+    const storedImage = storedImages.get(event);
+    if (storedImage) {
+      event.image = storedImage.url;
+      event.imageKey = storedImage.key;
+    }
+
+    try {
+      await event.save();
+      result.slug = event.slug;
+      written++;
+
+      // The stored copy replaces the event's previous image
+      if (storedImage && result.action === 'update') {
+        await deleteImage(previousImageKey);
+      }
+
+      if (result.action === 'update' && event.capacity !== previousCapacity) {
+        await fillFromWaitlist(event._id as Types.ObjectId);
+      }
+    } catch (error) {
+      // The event was not written, so its image would never be used
+      await deleteImage(storedImage?.key);
+
+      // Rows were all checked above, so this is a write that failed (e.g. a slug taken meanwhile);
+      // the rows before it are saved, and the report says which ones
+      if (!(error instanceof mongoose.Error.ValidationError) && (error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+      result.action = 'error';
+      result.errors = error instanceof mongoose.Error.ValidationError
+        ? fieldErrorsFromMongoose(error)
+        : { slug: 'An event with this slug was created while importing' };
+    }
+  }
+
+  return report();
+}
+
+/**
+ * Converts an event to the values of an export row
+ */
+function toExportRow(event: IEvent): Partial<Record<(typeof EXPORT_FIELDS)[number], unknown>> {
+  return Object.fromEntries(EXPORT_FIELDS.map((field) => [field, event[field] ?? null]));
+}
+
+/**
+ * Streams the events matching a query as CSV or JSON ({ "events": [...] })
+ *
+ * @param query - Parsed query, see parseEventQuery; its limit and cursor are ignored
+ * @param format - csv or json
+ * @returns Stream of the encoded file
+ */
+export function exportEvents(query: EventQuery, format: TransferFormat): ReadableStream<Uint8Array> {
+  return createExportStream(streamEvents(query), {
+    format,
+    columns: EXPORT_FIELDS,
+    key: 'events',
+    toRow: toExportRow,
+  });
+}
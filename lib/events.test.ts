@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { EventQueryError, parseEventQuery } from './events';
+
+describe('parseEventQuery', () => {
+  it('sorts by creation date, newest first, by default', () => {
+    expect(parseEventQuery(new URLSearchParams())).toMatchObject({ sort: 'created', order: 'desc' });
+  });
+
+  it('sorts upcoming events by date, soonest first', () => {
+    expect(parseEventQuery(new URLSearchParams('sort=date&when=upcoming'))).toMatchObject({ sort: 'date', order: 'asc' });
+  });
+
+  it.each(['title', 'constructor', 'toString', '__proto__'])('rejects sort=%s', (sort) => {
+    expect(() => parseEventQuery(new URLSearchParams({ sort }))).toThrow(EventQueryError);
+  });
+});
@@ -0,0 +1,372 @@
+import { Types, type PipelineStage, type QueryFilter } from 'mongoose';
+import { Event, type IEvent } from '@/database';
+import { ApiError } from './api/errors';
+import { EVENT_MODES, type EventMode } from './constants';
+import { normalizeTags } from './tags';
+
+/**
+ * Event fields that can be changed through PATCH /api/events/[slug]
+ * slug, previousSlugs, startsAt/endsAt and seatsTaken are derived and never set directly
+ */
+export const EDITABLE_EVENT_FIELDS = [
+  'title',
+  'description',
+  'overview',
+  'image',
+  'venue',
+  'location',
+  'date',
+  'time',
+  'timezone',
+  'endDate',
+  'endTime',
+  'mode',
+  'audience',
+  'agenda',
+  'organizer',
+  'tags',
+  'capacity',
+] as const;
+
+export type EditableEventField = (typeof EDITABLE_EVENT_FIELDS)[number];
+
+/**
+ * Finds an event by its current slug, or by a slug it had before its title was edited
+ *
+ * @param slug - Normalized slug from the URL
+ * @returns The event and whether the slug is its current one, or null if no event matches
+ */
+export async function resolveEventSlug(
+  slug: string
+): Promise<{ event: IEvent; isCurrentSlug: boolean } | null> {
+  const event = await Event.findOne({ slug });
+  if (event) {
+    return { event, isCurrentSlug: true };
+  }
+
+  const renamedEvent = await Event.findOne({ previousSlugs: slug });
+  if (renamedEvent) {
+    return { event: renamedEvent, isCurrentSlug: false };
+  }
+
+  return null;
+}
+
+/**
+ * Error thrown when GET /api/events receives a query parameter it cannot use; responds 400
+ */
+export class EventQueryError extends ApiError {
+  constructor(message: string) {
+    super(400, 'INVALID_QUERY', message);
+    this.name = 'EventQueryError';
+  }
+}
+
+export const EVENT_SORT_FIELDS = {
+  date: 'startsAt',
+  created: 'createdAt',
+} as const;
+
+export type EventSort = keyof typeof EVENT_SORT_FIELDS;
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Whether an event is still to come (or in progress) or has ended, based on its end time
+ */
+export const EVENT_TIMEFRAMES = ['upcoming', 'past'] as const;
+
+export type EventTimeframe = (typeof EVENT_TIMEFRAMES)[number];
+
+export const DEFAULT_EVENT_PAGE_SIZE = 20;
+export const MAX_EVENT_PAGE_SIZE = 100;
+
+/**
+ * Parsed and validated query of an event listing
+ */
+export interface EventQuery {
+  mode?: EventMode;
+  tags: string[];
+  location?: string;
+  month?: string; // YYYY-MM, in the event's own timezone
+  when?: EventTimeframe;
+  organizer?: string;
+  from?: Date;
+  to?: Date;
+  sort: EventSort;
+  order: SortOrder;
+  limit: number;
+  cursor?: EventCursor;
+}
+
+/**
+ * Position after the last event of a page: its sort value and _id (the tie-breaker)
+ */
+interface EventCursor {
+  value: Date;
+  id: Types.ObjectId;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function encodeCursor(cursor: EventCursor): string {
+  return Buffer.from(JSON.stringify({ v: cursor.value.toISOString(), id: cursor.id.toString() })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): EventCursor {
+  try {
+    const { v, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const value = new Date(v);
+    if (Number.isNaN(value.getTime()) || !Types.ObjectId.isValid(id)) {
+      throw new Error('Invalid cursor contents');
+    }
+    return { value, id: new Types.ObjectId(id) };
+  } catch {
+    throw new EventQueryError('Invalid cursor');
+  }
+}
+
+/**
+ * Parses a date range bound
+ * A plain YYYY-MM-DD date covers the whole day (UTC): `to` is moved to the end of that day
+ *
+ * @throws EventQueryError if the value is not a date
+ */
+export function parseDateBound(value: string, name: 'from' | 'to'): Date {
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(isDateOnly && name === 'to' ? `${value}T23:59:59.999Z` : value);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new EventQueryError(`${name} must be a date (YYYY-MM-DD) or an ISO 8601 date-time`);
+  }
+
+  return date;
+}
+
+/**
+ * Parses the query parameters of an event listing
+ *
+ * Supported parameters:
+ * - mode: online, offline or hybrid
+ * - tag: repeat or comma-separate for several; matches events with any of them
+ * - location, organizer: case-insensitive partial match
+ * - month: YYYY-MM, events starting that month (in their own timezone)
+ * - when: upcoming (not ended yet) or past
+ * - from, to: events that overlap the range
+ * - sort: date (start time) or created; order: asc or desc
+ * - limit: page size, up to MAX_EVENT_PAGE_SIZE
+ * - cursor: nextCursor of the previous page
+ *
+ * @throws EventQueryError if a parameter is invalid
+ */
+export function parseEventQuery(params: URLSearchParams): EventQuery {
+  const get = (name: string) => params.get(name)?.trim() || undefined;
+
+  const mode = get('mode')?.toLowerCase();
+  if (mode && !EVENT_MODES.includes(mode as EventMode)) {
+    throw new EventQueryError(`mode must be one of: ${EVENT_MODES.join(', ')}`);
+  }
+
+  const when = get('when');
+  if (when && !EVENT_TIMEFRAMES.includes(when as EventTimeframe)) {
+    throw new EventQueryError(`when must be one of: ${EVENT_TIMEFRAMES.join(', ')}`);
+  }
+
+  const sort = get('sort') ?? 'created';
+  if (!Object.hasOwn(EVENT_SORT_FIELDS, sort)) {
+    throw new EventQueryError(`sort must be one of: ${Object.keys(EVENT_SORT_FIELDS).join(', ')}`);
+  }
+
+  // Newest first for creation date and past events, soonest first for upcoming event dates
+  const order = get('order') ?? (sort === 'created' || when === 'past' ? 'desc' : 'asc');
+  if (order !== 'asc' && order !== 'desc') {
+    throw new EventQueryError('order must be asc or desc');
+  }
+
+  const limitParam = get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_EVENT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_EVENT_PAGE_SIZE) {
+    throw new EventQueryError(`limit must be a whole number between 1 and ${MAX_EVENT_PAGE_SIZE}`);
+  }
+
+  const fromParam = get('from');
+  const toParam = get('to');
+  const from = fromParam ? parseDateBound(fromParam, 'from') : undefined;
+  const to = toParam ? parseDateBound(toParam, 'to') : undefined;
+  if (from && to && from > to) {
+    throw new EventQueryError('from must be before to');
+  }
+
+  const month = get('month');
+  if (month && !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+    throw new EventQueryError('month must be in YYYY-MM format');
+  }
+
+  const cursorParam = get('cursor');
+
+  return {
+    mode: mode as EventMode | undefined,
+    tags: normalizeTags(params.getAll('tag').flatMap((tag) => tag.split(','))),
+    location: get('location'),
+    organizer: get('organizer'),
+    month,
+    when: when as EventTimeframe | undefined,
+    from,
+    to,
+    sort: sort as EventSort,
+    order,
+    limit,
+    cursor: cursorParam ? decodeCursor(cursorParam) : undefined,
+  };
+}
+
+/**
+ * Builds the MongoDB filter for an event query, without the cursor
+ */
+function buildEventFilter(query: EventQuery): QueryFilter<IEvent> {
+  const filter: QueryFilter<IEvent> = {};
+
+  if (query.mode) filter.mode = query.mode;
+  if (query.tags.length > 0) filter.tags = { $in: query.tags };
+  if (query.location) filter.location = { $regex: escapeRegex(query.location), $options: 'i' };
+  if (query.organizer) filter.organizer = { $regex: escapeRegex(query.organizer), $options: 'i' };
+
+  // date is the wall-clock start date (YYYY-MM-DD) in the event's timezone
+  if (query.month) filter.date = { $regex: `^${query.month}-` };
+
+  // An event is in the range when it overlaps it, so multi-day events that started earlier still match
+  const endsAt: { $gte?: Date; $lt?: Date } = {};
+  if (query.from) endsAt.$gte = query.from;
+
+  // Events in progress are still upcoming; they become past once they end
+  const now = new Date();
+  if (query.when === 'upcoming' && !(query.from && query.from > now)) endsAt.$gte = now;
+  if (query.when === 'past') endsAt.$lt = now;
+
+  if (Object.keys(endsAt).length > 0) filter.endsAt = endsAt;
+
+  // Events saved before start instants existed cannot be placed in date order
+  if (query.to || query.sort === 'date') {
+    filter.startsAt = { $ne: null, ...(query.to && { $lte: query.to }) };
+  }
+
+  return filter;
+}
+
+/**
+ * Lists events matching a query, one page at a time
+ * Pages are keyed on (sort field, _id) so they stay stable while events are added
+ *
+ * @param query - Parsed query, see parseEventQuery
+ * @returns The page of events and the cursor of the next page, or null on the last page
+ */
+export async function findEvents(
+  query: EventQuery
+): Promise<{ events: Array<IEvent & { _id: Types.ObjectId }>; nextCursor: string | null }> {
+  const field = EVENT_SORT_FIELDS[query.sort];
+  const direction = query.order === 'asc' ? 1 : -1;
+  const filter = buildEventFilter(query);
+
+  if (query.cursor) {
+    const after = query.order === 'asc' ? '$gt' : '$lt';
+    filter.$or = [
+      { [field]: { [after]: query.cursor.value } },
+      { [field]: query.cursor.value, _id: { [after]: query.cursor.id } },
+    ];
+  }
+
+  // Fetch one extra event to know whether there is a next page
+  const events = await Event.find(filter)
+    .sort({ [field]: direction, _id: direction })
+    .limit(query.limit + 1)
+    .lean<Array<IEvent & { _id: Types.ObjectId }>>();
+
+  if (events.length <= query.limit) {
+    return { events, nextCursor: null };
+  }
+
+  const page = events.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    events: page,
+    nextCursor: encodeCursor({ value: new Date(last[field]), id: last._id }),
+  };
+}
+
+/**
+ * Streams every event matching a query, ignoring its limit and cursor
+ * Used for exports, where a page would cut the collection short
+ *
+ * @param query - Parsed query, see parseEventQuery
+ * @returns Cursor over the matching events, in the query's sort order
+ */
+export function streamEvents(query: EventQuery) {
+  const field = EVENT_SORT_FIELDS[query.sort];
+  const direction = query.order === 'asc' ? 1 : -1;
+
+  return Event.find(buildEventFilter(query))
+    .sort({ [field]: direction, _id: direction })
+    .lean<IEvent & { _id: Types.ObjectId }>()
+    .cursor();
+}
+
+export const EVENT_FACETS = ['mode', 'tag', 'location', 'month'] as const;
+
+export type EventFacet = (typeof EVENT_FACETS)[number];
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+const MAX_FACET_VALUES = 20;
+
+/**
+ * Counts the events matching a query per mode, tag, location and start month
+ * Each facet is counted with every filter applied except its own,
+ * so the counts show what selecting another value of that facet would return
+ *
+ * @param query - Parsed query, see parseEventQuery; sort and pagination are ignored
+ * @returns Values and event counts per facet, most common first (months in calendar order)
+ */
+export async function getEventFacets(query: EventQuery): Promise<Record<EventFacet, FacetCount[]>> {
+  const matchWithout = (facet: EventFacet): PipelineStage.Match => ({
+    $match: buildEventFilter({
+      ...query,
+      sort: 'created',
+      ...(facet === 'tag' ? { tags: [] } : { [facet]: undefined }),
+    }) as PipelineStage.Match['$match'],
+  });
+  const countBy = (field: unknown) => ({ $group: { _id: field, count: { $sum: 1 } } });
+  const byCount = { $sort: { count: -1, _id: 1 } } as const;
+
+  const [facets] = await Event.aggregate<Record<EventFacet, Array<{ _id: string; count: number }>>>([
+    {
+      $facet: {
+        mode: [matchWithout('mode'), countBy('$mode'), byCount],
+        tag: [matchWithout('tag'), { $unwind: '$tags' }, countBy('$tags'), byCount, { $limit: MAX_FACET_VALUES }],
+        location: [matchWithout('location'), countBy('$location'), byCount, { $limit: MAX_FACET_VALUES }],
+        month: [matchWithout('month'), countBy({ $substrBytes: ['$date', 0, 7] }), { $sort: { _id: 1 } }],
+      },
+    },
+  ]);
+
+  return Object.fromEntries(
+    EVENT_FACETS.map((facet) => [facet, facets[facet].map(({ _id, count }) => ({ value: _id, count }))])
+  ) as Record<EventFacet, FacetCount[]>;
+}
+
+/**
+ * Checks whether an event has ended
+ * Events saved before end instants existed are treated as ending at the end of their date (UTC)
+ */
+export function hasEventEnded(
+  event: { endsAt?: Date | string | null; date: string },
+  now: Date = new Date()
+): boolean {
+  const endsAt = event.endsAt ? new Date(event.endsAt) : new Date(`${event.date}T23:59:59.999Z`);
+
+  return endsAt < now;
+}
@@ -0,0 +1,106 @@
+import { ApiError } from './api/errors';
+import { formatCsvRow } from './csv';
+
+/**
+ * File formats of exports (and of event imports)
+ */
+export const TRANSFER_FORMATS = ['csv', 'json'] as const;
+
+export type TransferFormat = (typeof TRANSFER_FORMATS)[number];
+
+export const TRANSFER_CONTENT_TYPES: Record<TransferFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+/**
+ * Reads the format query parameter of an export
+ *
+ * @param value - Requested format; json when not given
+ * @throws ApiError 400 for anything but csv or json
+ */
+export function parseTransferFormat(value: string | null): TransferFormat {
+  const format = value?.trim().toLowerCase() || 'json';
+  if (!TRANSFER_FORMATS.includes(format as TransferFormat)) {
+    throw new ApiError(400, 'INVALID_QUERY', `format must be one of: ${TRANSFER_FORMATS.join(', ')}`);
+  }
+
+  return format as TransferFormat;
+}
+
+/**
+ * A source of documents read one at a time, such as a Mongoose query cursor
+ */
+interface DocumentCursor<T> {
+  next(): Promise<T | null>;
+  close(): Promise<void>;
+}
+
+/**
+ * Formats a value for a CSV cell: lists as JSON arrays, dates as ISO 8601
+ */
+function toCsvValue(value: unknown): unknown {
+  if (Array.isArray(value)) return JSON.stringify(value);
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+/**
+ * Streams documents as a CSV file, or as a JSON object with the rows in one array
+ * Documents are written as they are read, so large exports are never held in memory
+ *
+ * @param cursor - Documents to export
+ * @param options.format - csv, or json ({ "<key>": [...] })
+ * @param options.columns - Fields of a row, in order; CSV uses them as the header
+ * @param options.key - Name of the array in JSON
+ * @param options.toRow - Converts a document to its row values, keyed by column
+ * @returns Stream of the encoded file
+ */
+export function createExportStream<T, Column extends string>(
+  cursor: DocumentCursor<T>,
+  {
+    format,
+    columns,
+    key,
+    toRow,
+  }: {
+    format: TransferFormat;
+    columns: readonly Column[];
+    key: string;
+    toRow: (document: T) => Partial<Record<Column, unknown>>;
+  }
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let count = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(format === 'csv' ? formatCsvRow([...columns]) : `{${JSON.stringify(key)}:[`));
+    },
+    async pull(controller) {
+      try {
+        const document = await cursor.next();
+
+        if (!document) {
+          if (format === 'json') controller.enqueue(encoder.encode(']}\n'));
+          controller.close();
+          return;
+        }
+
+        const row = toRow(document);
+        const chunk = format === 'csv'
+          ? formatCsvRow(columns.map((column) => toCsvValue(row[column])))
+          : `${count > 0 ? ',' : ''}\n${JSON.stringify(row)}`;
+
+        count++;
+        controller.enqueue(encoder.encode(chunk));
+      } catch (error) {
+        await cursor.close();
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await cursor.close();
+    },
+  });
+}
@@ -0,0 +1,129 @@
+import type { IEvent } from '@/database';
+
+/**
+ * Event fields needed to build an iCalendar VEVENT
+ */
+export type CalendarEvent = Pick<
+  IEvent,
+  'title' | 'slug' | 'description' | 'venue' | 'location' | 'date' | 'time' | 'organizer' | 'updatedAt'
+> & { _id: { toString(): string }; startsAt?: Date | null; endsAt?: Date | null };
+
+const PRODUCT_ID = '-//DevEvent//DevEvent Calendar//EN';
+const CRLF = '\r\n';
+
+/**
+ * Escapes a TEXT value (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line to at most 75 octets per line (RFC 5545 section 3.1)
+ * Continuation lines start with a single space
+ */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentLength = 0;
+  const limit = () => (parts.length === 0 ? 75 : 74); // Continuation lines lose one octet to the leading space
+
+  for (const char of line) {
+    const charLength = Buffer.byteLength(char, 'utf8');
+    if (currentLength + charLength > limit()) {
+      parts.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+}
+
+/**
+ * Formats a Date as a UTC DATE-TIME value, e.g. 20240614T070000Z
+ */
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Builds the DTSTART property
+ * Uses the UTC start instant; events saved before timezones existed only have
+ * date and time strings, so they are exported as floating local time,
+ * or as all-day when the time is not in HH:MM format
+ */
+function formatStart(event: CalendarEvent): string {
+  if (event.startsAt) {
+    return `DTSTART:${formatUtc(new Date(event.startsAt))}`;
+  }
+
+  const day = event.date.replace(/-/g, '');
+  const timeMatch = event.time.match(/^(\d{2}):(\d{2})$/);
+
+  return timeMatch
+    ? `DTSTART:${day}T${timeMatch[1]}${timeMatch[2]}00`
+    : `DTSTART;VALUE=DATE:${day}`;
+}
+
+/**
+ * Builds the lines of a single VEVENT component
+ *
+ * @param event - Event to export
+ * @param baseUrl - Public URL of the app, used for the event link
+ */
+function buildEventLines(event: CalendarEvent, baseUrl: string): string[] {
+  const url = `${baseUrl}/events/${event.slug}`;
+  const organizerName = event.organizer.replace(/["\r\n]/g, '');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event._id.toString()}@devevent`,
+    `DTSTAMP:${formatUtc(new Date(event.updatedAt ?? Date.now()))}`,
+    formatStart(event),
+    ...(event.startsAt && event.endsAt ? [`DTEND:${formatUtc(new Date(event.endsAt))}`] : []),
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(`${event.description}\n\n${url}`)}`,
+    `LOCATION:${escapeText(`${event.venue}, ${event.location}`)}`,
+    `ORGANIZER;CN="${organizerName}":invalid:nomail`,
+    `URL:${url}`,
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Builds an RFC 5545 iCalendar document
+ *
+ * @param events - Events to include as VEVENT components
+ * @param options - Calendar name and public base URL
+ * @returns iCalendar text with CRLF line endings
+ */
+export function buildCalendar(
+  events: CalendarEvent[],
+  { name, baseUrl }: { name: string; baseUrl: string }
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap((event) => buildEventLines(event, baseUrl)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
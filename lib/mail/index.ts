@@ -0,0 +1,83 @@
+import { createFileTransport } from './transports/file';
+import { createMemoryTransport } from './transports/memory';
+import { createSmtpTransport } from './transports/smtp';
+import type { MailMessage, MailTransport } from './types';
+
+export type { MailAttachment, MailMessage, MailTransport, RenderedEmail } from './types';
+export { createFileTransport, createMemoryTransport, createSmtpTransport };
+
+const DEFAULT_FROM = 'DevEvent <no-reply@devevent.local>';
+
+/**
+ * Global is used here to keep a single transport across hot reloads,
+ * and to let tests swap in an in-memory transport
+ */
+const globalForMail = global as unknown as { mailTransport?: MailTransport };
+
+/**
+ * Builds the transport selected by the MAIL_TRANSPORT environment variable
+ * - smtp: SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS
+ * - file: writes messages to MAIL_OUTPUT_DIR (default .mail)
+ * - console: logs messages (default)
+ * - memory: keeps messages in memory
+ *
+ * In production MAIL_TRANSPORT must be set: the console fallback would log cancellation links
+ * and deliver nothing
+ */
+function createTransportFromEnv(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp': {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST environment variable is required when MAIL_TRANSPORT=smtp');
+      }
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT ?? 587),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      });
+    }
+    case 'file':
+      return createFileTransport(process.env.MAIL_OUTPUT_DIR ?? '.mail');
+    case 'memory':
+      return createMemoryTransport();
+    case 'console':
+      return createFileTransport();
+    default:
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('MAIL_TRANSPORT environment variable must be set in production (e.g. MAIL_TRANSPORT=smtp)');
+      }
+      return createFileTransport();
+  }
+}
+
+/**
+ * Returns the active mail transport, creating it on first use
+ */
+export function getMailTransport(): MailTransport {
+  if (!globalForMail.mailTransport) {
+    globalForMail.mailTransport = createTransportFromEnv();
+  }
+  return globalForMail.mailTransport;
+}
+
+/**
+ * Replaces the active mail transport (e.g. with an in-memory transport in tests)
+ */
+export function setMailTransport(transport: MailTransport): void {
+  globalForMail.mailTransport = transport;
+}
+
+/**
+ * Sends a message through the active transport
+ * Uses MAIL_FROM as the sender unless the message sets one
+ *
+ * @param message - Rendered message to send
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({
+    from: process.env.MAIL_FROM ?? DEFAULT_FROM,
+    ...message,
+  });
+}
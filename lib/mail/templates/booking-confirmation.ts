@@ -0,0 +1,102 @@
+import type { BookingStatus, IEvent } from '@/database';
+import type { RenderedEmail } from '../types';
+import { formatEventDateRange, formatEventTimeRange } from '@/lib/datetime';
+import { escapeHtml, renderLayout } from './layout';
+
+export interface BookingConfirmationData {
+  event: Pick<IEvent, 'title' | 'date' | 'time' | 'timezone' | 'startsAt' | 'endsAt' | 'venue' | 'location'> & { slug?: string };
+  email: string;
+  status: Exclude<BookingStatus, 'cancelled'>;
+  eventUrl: string;
+  cancelUrl: string;
+  promoted?: boolean; // The booking moved up from the waitlist
+  ticket?: {
+    code: string; // Formatted for display
+    qrCode: Buffer; // PNG of the QR image
+  };
+}
+
+const TICKET_QR_CID = 'ticket-qr';
+
+/**
+ * Renders the email sent after a booking is created
+ * Covers confirmed and waitlisted bookings, and waitlisted bookings that were later confirmed
+ * The ticket's QR image is attached and shown inline; waitlisted tickets only work once the spot is confirmed
+ *
+ * @param data - Event details, booking status and links
+ * @returns Subject, HTML and plain-text bodies
+ */
+export function renderBookingConfirmation(data: BookingConfirmationData): RenderedEmail {
+  const { event, email, status, eventUrl, cancelUrl, promoted = false, ticket } = data;
+  const waitlisted = status === 'waitlisted';
+
+  const subject = waitlisted
+    ? `You're on the waitlist for ${event.title}`
+    : promoted
+      ? `A seat opened up: your spot at ${event.title} is confirmed`
+      : `Your spot at ${event.title} is confirmed`;
+
+  const intro = waitlisted
+    ? `${event.title} is currently full, so ${email} has been added to the waitlist. We'll confirm your spot as soon as a seat frees up.`
+    : promoted
+      ? `Good news! A seat freed up at ${event.title}, so ${email} has moved off the waitlist and the spot is now confirmed.`
+      : `Thanks for booking! A spot at ${event.title} is reserved for ${email}.`;
+
+  const details: Array<[string, string]> = [
+    ['Date', event.startsAt ? formatEventDateRange(event.startsAt, event.endsAt, event.timezone) : event.date],
+    ['Time', event.startsAt ? `${formatEventTimeRange(event.startsAt, event.endsAt, event.timezone)} (${event.timezone})` : event.time],
+    ['Venue', event.venue],
+    ['Location', event.location],
+  ];
+
+  const ticketNote = waitlisted
+    ? 'Your ticket will be valid once your spot is confirmed.'
+    : 'Show this code at the entrance to check in.';
+
+  const text = [
+    intro,
+    '',
+    ...details.map(([label, value]) => `${label}: ${value}`),
+    '',
+    ...(ticket ? [`Ticket: ${ticket.code}`, ticketNote, ''] : []),
+    `Event details: ${eventUrl}`,
+    `Can't make it? Cancel your booking: ${cancelUrl}`,
+  ].join('\n');
+
+  const html = renderLayout(
+    subject,
+    `<h1 style="margin:0 0 12px;font-size:22px;color:#ffffff;">${escapeHtml(event.title)}</h1>
+      <p style="margin:0 0 16px;">${escapeHtml(intro)}</p>
+      <table style="border-collapse:collapse;margin:0 0 16px;">
+        ${details
+          .map(
+            ([label, value]) =>
+              `<tr><td style="padding:4px 16px 4px 0;color:#bdbdbd;">${label}</td><td style="padding:4px 0;">${escapeHtml(value)}</td></tr>`
+          )
+          .join('\n        ')}
+      </table>
+      ${ticket ? renderTicket(ticket.code, ticketNote) : ''}
+      <p style="margin:0 0 8px;"><a href="${escapeHtml(eventUrl)}" style="color:#59deca;">View event details</a></p>
+      <p style="margin:0;font-size:12px;color:#bdbdbd;">Can't make it? <a href="${escapeHtml(cancelUrl)}" style="color:#bdbdbd;">Cancel your booking</a></p>`
+  );
+
+  return {
+    subject,
+    html,
+    text,
+    attachments: ticket
+      ? [{ filename: 'ticket.png', content: ticket.qrCode, contentType: 'image/png', cid: TICKET_QR_CID }]
+      : undefined,
+  };
+}
+
+/**
+ * Renders the ticket block: QR image, code and a note on when it can be used
+ */
+function renderTicket(code: string, note: string): string {
+  return `<div style="margin:0 0 16px;padding:16px;background:#182830;border-radius:10px;text-align:center;">
+        <img src="cid:${TICKET_QR_CID}" alt="Ticket QR code" width="200" height="200" style="display:block;margin:0 auto 8px;" />
+        <p style="margin:0 0 4px;font-size:20px;font-weight:bold;letter-spacing:2px;color:#ffffff;">${escapeHtml(code)}</p>
+        <p style="margin:0;font-size:12px;color:#bdbdbd;">${escapeHtml(note)}</p>
+      </div>`;
+}
@@ -0,0 +1,35 @@
+/**
+ * Escapes text for safe interpolation into HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Wraps email body HTML in the shared DevEvent layout
+ * Uses inline styles because most mail clients ignore stylesheets
+ *
+ * @param title - Document title
+ * @param body - Inner HTML (already escaped)
+ * @returns Complete HTML document
+ */
+export function renderLayout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="margin:0;padding:24px;background:#030708;color:#e7f2ff;font-family:Arial,Helvetica,sans-serif;">
+    <div style="max-width:560px;margin:0 auto;background:#0d161a;border:1px solid #182830;border-radius:10px;padding:24px;">
+      <p style="margin:0 0 16px;font-size:18px;font-weight:bold;font-style:italic;color:#ffffff;">DevEvent</p>
+      ${body}
+    </div>
+  </body>
+</html>`;
+}
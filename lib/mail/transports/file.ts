@@ -0,0 +1,43 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { MailMessage, MailTransport } from '../types';
+
+/**
+ * Creates a transport for local development
+ * Writes each message to `<directory>/<timestamp>-<recipient>.html` and `.txt`,
+ * with attachments next to them (inline images in the HTML point to those files),
+ * or logs it to the console when no directory is given
+ *
+ * @param directory - Output directory for message files
+ * @returns File/console mail transport
+ */
+export function createFileTransport(directory?: string): MailTransport {
+  return {
+    name: directory ? 'file' : 'console',
+    async send(message: MailMessage) {
+      if (!directory) {
+        console.log(`📧 Mail to ${message.to}: ${message.subject}\n\n${message.text}`);
+        return;
+      }
+
+      await mkdir(directory, { recursive: true });
+
+      const baseName = `${Date.now()}-${message.to.replace(/[^\w.@-]/g, '_')}`;
+      const header = `From: ${message.from ?? ''}\nTo: ${message.to}\nSubject: ${message.subject}\n\n`;
+
+      let html = message.html;
+      for (const attachment of message.attachments ?? []) {
+        const fileName = `${baseName}-${attachment.filename}`;
+        await writeFile(path.join(directory, fileName), attachment.content);
+        if (attachment.cid) {
+          html = html.replaceAll(`cid:${attachment.cid}`, fileName);
+        }
+      }
+
+      await writeFile(path.join(directory, `${baseName}.html`), html);
+      await writeFile(path.join(directory, `${baseName}.txt`), header + message.text);
+
+      console.log(`📧 Mail to ${message.to} written to ${path.join(directory, baseName)}.{html,txt}`);
+    },
+  };
+}
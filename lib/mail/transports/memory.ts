@@ -0,0 +1,27 @@
+import type { MailMessage, MailTransport } from '../types';
+
+export interface MemoryTransport extends MailTransport {
+  sent: MailMessage[];
+  clear(): void;
+}
+
+/**
+ * Creates a transport that keeps messages in memory
+ * Intended for tests: inspect `sent` to assert on delivered mail
+ *
+ * @returns In-memory mail transport
+ */
+export function createMemoryTransport(): MemoryTransport {
+  const sent: MailMessage[] = [];
+
+  return {
+    name: 'memory',
+    sent,
+    async send(message: MailMessage) {
+      sent.push(message);
+    },
+    clear() {
+      sent.length = 0;
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import nodemailer from 'nodemailer';
+import type { MailMessage, MailTransport } from '../types';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+/**
+ * Creates a transport that delivers mail through an SMTP server
+ *
+ * @param options - SMTP connection settings
+ * @returns SMTP mail transport
+ */
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message: MailMessage) {
+      await transporter.sendMail(message);
+    },
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * A file sent with an email
+ * Images shown in the HTML body reference their attachment as `cid:<cid>`
+ */
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+  cid?: string;
+}
+
+/**
+ * A rendered email ready to be handed to a transport
+ */
+export interface MailMessage {
+  to: string;
+  from?: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+/**
+ * Delivers mail messages
+ * Every transport (SMTP, file/console, in-memory) implements this interface
+ */
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Output of a template: subject line plus HTML and plain-text bodies, and any attachments
+ */
+export type RenderedEmail = Pick<MailMessage, 'subject' | 'html' | 'text' | 'attachments'>;
@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import { DatabaseConnectionError } from './api/errors';
 
 /**
  * Global is used here to maintain a cached connection across hot reloads
@@ -162,7 +163,7 @@ const MONGODB_URI: string = (() => {
  * Uses connection caching to prevent multiple connections during development
  * 
  * @returns {Promise<typeof mongoose>} A promise that resolves to the mongoose instance
- * @throws {Error} If MONGODB_URI is not provided or connection fails
+ * @throws {DatabaseConnectionError} If the connection fails
  */
 async function connectDB(): Promise<typeof mongoose> {
   // If we already have a cached connection, return it immediately
@@ -209,7 +210,7 @@ async function connectDB(): Promise<typeof mongoose> {
   } catch (error) {
     // If connection fails, clear the cached promise
     globalForMongoose.mongoose.promise = null;
-    throw error;
+    throw new DatabaseConnectionError(error);
   }
 
   return globalForMongoose.mongoose.conn;
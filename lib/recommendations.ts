@@ -0,0 +1,77 @@
+import { Types } from 'mongoose';
+import { Event, type IEvent } from '@/database';
+
+/**
+ * How much each kind of similarity adds to a recommendation's score
+ * tag counts once per shared tag; proximity is scaled from 1 (same start time) to 0 (PROXIMITY_WINDOW_DAYS apart)
+ */
+export const SIMILARITY_WEIGHTS = {
+  tag: 3,
+  location: 2,
+  mode: 1,
+  proximity: 2,
+} as const;
+
+const PROXIMITY_WINDOW_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SIMILAR_EVENTS_LIMIT = 3;
+export const MAX_SIMILAR_EVENTS_LIMIT = 20;
+
+export type SimilarEvent = IEvent & { _id: Types.ObjectId; score: number; sharedTags: number };
+
+/**
+ * Ranks upcoming events by how similar they are to an event
+ * Candidates share at least one tag or the location; their score adds up
+ * shared tags, same location, same mode and how close their start times are (see SIMILARITY_WEIGHTS)
+ * Equal scores are ordered by start time, then _id, so the order is stable
+ *
+ * @param event - Event to find similar events for
+ * @param limit - Maximum number of events, capped at MAX_SIMILAR_EVENTS_LIMIT
+ * @returns Similar events, best match first
+ */
+export async function getSimilarEvents(
+  event: Pick<IEvent, 'tags' | 'mode' | 'location' | 'startsAt'> & { _id: Types.ObjectId },
+  limit: number = DEFAULT_SIMILAR_EVENTS_LIMIT
+): Promise<SimilarEvent[]> {
+  const now = new Date();
+  const reference = event.startsAt ?? now;
+  const tags = [...(event.tags ?? [])];
+
+  return Event.aggregate<SimilarEvent>([
+    {
+      $match: {
+        _id: { $ne: event._id },
+        // Events still in progress count as upcoming, so compare against the end time
+        endsAt: { $gte: now },
+        $or: [{ tags: { $in: tags } }, { location: event.location }],
+      },
+    },
+    {
+      $addFields: {
+        sharedTags: { $size: { $setIntersection: ['$tags', tags] } },
+        daysApart: { $divide: [{ $abs: { $subtract: ['$startsAt', reference] } }, DAY_MS] },
+      },
+    },
+    {
+      $addFields: {
+        score: {
+          $add: [
+            { $multiply: ['$sharedTags', SIMILARITY_WEIGHTS.tag] },
+            { $cond: [{ $eq: ['$location', event.location] }, SIMILARITY_WEIGHTS.location, 0] },
+            { $cond: [{ $eq: ['$mode', event.mode] }, SIMILARITY_WEIGHTS.mode, 0] },
+            {
+              $multiply: [
+                { $max: [0, { $subtract: [1, { $divide: ['$daysApart', PROXIMITY_WINDOW_DAYS] }] }] },
+                SIMILARITY_WEIGHTS.proximity,
+              ],
+            },
+          ],
+        },
+      },
+    },
+    { $sort: { score: -1, startsAt: 1, _id: 1 } },
+    { $limit: Math.min(Math.max(1, Math.floor(limit)), MAX_SIMILAR_EVENTS_LIMIT) },
+    { $project: { daysApart: 0 } },
+  ]);
+}
@@ -0,0 +1,113 @@
+import { Types } from 'mongoose';
+import { Event, type IEvent } from '@/database';
+
+/**
+ * Event fields covered by the text index, from highest to lowest weight
+ */
+export const SEARCH_FIELDS = ['title', 'tags', 'description', 'organizer', 'overview'] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+export const MIN_QUERY_LENGTH = 2;
+export const MAX_QUERY_LENGTH = 100;
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+const SNIPPET_RADIUS = 80;
+
+/**
+ * Excerpt of a matching field, with the [start, end) ranges of the matched terms
+ */
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+/**
+ * Splits a query into the terms to highlight, ignoring quotes and negated terms
+ */
+function getTerms(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .filter((term) => !term.startsWith('-'))
+    .map((term) => term.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .filter((term) => term.length > 0);
+}
+
+/**
+ * Finds where the terms occur in a text
+ * Matches at the start of words, so "react" also highlights "React's" and "Reactive",
+ * roughly like the stemming the text index applies
+ */
+function findMatches(text: string, terms: string[]): Array<[number, number]> {
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`,
+    'giu'
+  );
+
+  return Array.from(text.matchAll(pattern), (match) => [match.index, match.index + match[0].length]);
+}
+
+/**
+ * Cuts a window of text around the first match, marking the matches inside it
+ * An ellipsis is added on each side that was cut
+ */
+function buildSnippet(field: SearchField, text: string, matches: Array<[number, number]>): SearchSnippet {
+  const [firstStart] = matches[0];
+  let start = Math.max(0, firstStart - SNIPPET_RADIUS);
+  let end = Math.min(text.length, firstStart + SNIPPET_RADIUS);
+
+  // Avoid cutting words in half
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  if (end < text.length) end = text.lastIndexOf(' ', end) > firstStart ? text.lastIndexOf(' ', end) : end;
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    field,
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: matches
+      .filter(([matchStart, matchEnd]) => matchStart >= start && matchEnd <= end)
+      .map(([matchStart, matchEnd]) => [matchStart + offset, matchEnd + offset]),
+  };
+}
+
+/**
+ * Builds a snippet for every field of an event that contains one of the terms
+ */
+function getSnippets(event: IEvent, terms: string[]): SearchSnippet[] {
+  return SEARCH_FIELDS.flatMap((field) => {
+    const text = field === 'tags' ? event.tags.join(', ') : event[field];
+    const matches = findMatches(text ?? '', terms);
+
+    return matches.length > 0 ? [buildSnippet(field, text, matches)] : [];
+  });
+}
+
+/**
+ * Searches events by keyword using the weighted text index
+ * Supports the MongoDB $text syntax: "exact phrases" and -excluded terms
+ *
+ * @param query - Search terms
+ * @param limit - Maximum number of results
+ * @returns Events ordered by relevance (then by start time), each with highlighted snippets
+ */
+export async function searchEvents(query: string, limit: number = DEFAULT_SEARCH_LIMIT) {
+  const events = await Event.find({ $text: { $search: query } }, { score: { $meta: 'textScore' } })
+    .sort({ score: { $meta: 'textScore' }, startsAt: 1, _id: 1 })
+    .limit(limit)
+    .lean<Array<IEvent & { _id: Types.ObjectId; score: number }>>();
+
+  const terms = getTerms(query);
+
+  return events.map((event) => ({ ...event, snippets: getSnippets(event, terms) }));
+}
+
+export type SearchResult = Awaited<ReturnType<typeof searchEvents>>[number];
@@ -0,0 +1,259 @@
+import { Types } from 'mongoose';
+import { Booking, Event, User, generateTicketCode, type IUser } from '@/database';
+import { hashPassword } from './auth';
+import { events as sampleEvents, type EventMode } from './constants';
+
+/**
+ * Development data built from the sample events in lib/constants.ts
+ * Seeded events belong to a demo organizer, so they can be told apart from real ones
+ */
+
+export const SEED_ORGANIZER = {
+  name: 'DevEvent Demo',
+  email: 'demo@devevent.dev',
+  password: 'devevent-demo',
+};
+
+export const DEFAULT_SEED_COUNT = sampleEvents.length;
+export const DEFAULT_SEED_BOOKINGS = 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 20;
+
+/**
+ * Details the samples in lib/constants.ts do not have, keyed by sample slug
+ */
+const SAMPLE_DETAILS: Record<
+  string,
+  {
+    venue: string;
+    timezone: string;
+    mode: EventMode;
+    organizer: string;
+    tags: string[];
+    topic: string;
+    capacity: number | null;
+  }
+> = {
+  'react-summit-2024': {
+    venue: 'Kromhouthal',
+    timezone: 'Europe/Amsterdam',
+    mode: 'hybrid',
+    organizer: 'GitNation',
+    tags: ['react', 'frontend', 'javascript'],
+    topic: 'React',
+    capacity: 40,
+  },
+  'nextjs-conf-2024': {
+    venue: 'SVN West',
+    timezone: 'America/Los_Angeles',
+    mode: 'hybrid',
+    organizer: 'Vercel',
+    tags: ['nextjs', 'react', 'web'],
+    topic: 'Next.js',
+    capacity: 60,
+  },
+  'devops-world-2024': {
+    venue: 'Gaylord Palms Resort',
+    timezone: 'America/New_York',
+    mode: 'offline',
+    organizer: 'CloudBees',
+    tags: ['devops', 'ci-cd', 'kubernetes'],
+    topic: 'DevOps',
+    capacity: 25,
+  },
+  'ai-hackathon-2024': {
+    venue: 'Cornell Tech',
+    timezone: 'America/New_York',
+    mode: 'offline',
+    organizer: 'NYC AI Collective',
+    tags: ['ai', 'machine-learning', 'hackathon'],
+    topic: 'AI',
+    capacity: 10,
+  },
+  'web3-developers-meetup': {
+    venue: 'Capital Factory',
+    timezone: 'America/Chicago',
+    mode: 'offline',
+    organizer: 'Austin Web3 Devs',
+    tags: ['web3', 'blockchain', 'meetup'],
+    topic: 'Web3',
+    capacity: null,
+  },
+  'typescript-conference': {
+    venue: 'Online',
+    timezone: 'Europe/London',
+    mode: 'online',
+    organizer: 'TypeScript London',
+    tags: ['typescript', 'javascript'],
+    topic: 'TypeScript',
+    capacity: null,
+  },
+};
+
+/**
+ * Days from today for the nth seeded event
+ * The samples are all upcoming so the home page has something to show;
+ * generated copies spread over the past 100 and next 300 days so the archive fills up too
+ */
+function dayOffset(index: number): number {
+  return index < sampleEvents.length ? 7 * (index + 1) : ((index * 37) % 400) - 100;
+}
+
+/**
+ * Builds the fields of the nth seeded event
+ * The first events are the samples; beyond them the samples repeat as numbered editions
+ *
+ * @param index - 0-based position of the event in the seed
+ * @param today - Day the seed runs; event dates are relative to it
+ */
+export function buildSeedEvent(index: number, today: Date) {
+  const sample = sampleEvents[index % sampleEvents.length];
+  const details = SAMPLE_DETAILS[sample.slug];
+  const edition = Math.floor(index / sampleEvents.length);
+  const [city] = sample.location.split(',');
+
+  return {
+    slug: edition === 0 ? sample.slug : `${sample.slug}-${edition + 1}`,
+    title: edition === 0 ? sample.title : `${sample.title} #${edition + 1}`,
+    description: `${sample.title} brings the ${details.topic} community together in ${city} for a day of talks, workshops and conversations with the people building the tools you use every day.`,
+    overview: `A day of ${details.topic} talks and hands-on workshops in ${city}.`,
+    image: sample.image,
+    venue: details.venue,
+    location: sample.location,
+    date: new Date(today.getTime() + dayOffset(index) * DAY_MS).toISOString().slice(0, 10),
+    time: sample.time,
+    timezone: details.timezone,
+    mode: details.mode,
+    audience: `Developers and engineering teams working with ${details.topic}`,
+    agenda: [
+      'Registration and coffee',
+      `Keynote: The state of ${details.topic}`,
+      `Workshop: ${details.topic} in production`,
+      'Lunch and networking',
+      'Lightning talks',
+      'Closing panel',
+    ],
+    organizer: details.organizer,
+    tags: details.tags,
+    capacity: details.capacity,
+  };
+}
+
+/**
+ * Builds fake bookings for an event
+ * Bookings beyond the capacity go on the waitlist, as they would through the booking flow
+ * For past events, three in four confirmed bookings checked in, so attendance figures have data
+ *
+ * @param checkInAt - When attendees checked in, or null for events that have not happened yet
+ * @returns The bookings and the number of seats they take
+ */
+function buildSeedBookings(eventId: Types.ObjectId, capacity: number | null, count: number, checkInAt: Date | null) {
+  const bookings = Array.from({ length: count }, (_, index) => {
+    const status = capacity === null || index < capacity ? ('confirmed' as const) : ('waitlisted' as const);
+
+    return {
+      eventId,
+      email: `attendee${index + 1}@example.com`,
+      status,
+      // insertMany skips the pre-save hook that gives bookings their code
+      ticketCode: generateTicketCode(),
+      checkedInAt: checkInAt && status === 'confirmed' && index % 4 !== 3 ? checkInAt : null,
+    };
+  });
+
+  return { bookings, seatsTaken: bookings.filter((booking) => booking.status === 'confirmed').length };
+}
+
+/**
+ * Finds or creates the demo organizer that owns seeded events
+ */
+async function getSeedOrganizer(): Promise<IUser> {
+  const existing = await User.findOne({ email: SEED_ORGANIZER.email });
+  if (existing) {
+    return existing;
+  }
+
+  return User.create({
+    name: SEED_ORGANIZER.name,
+    email: SEED_ORGANIZER.email,
+    passwordHash: await hashPassword(SEED_ORGANIZER.password),
+  });
+}
+
+export interface SeedSummary {
+  removedEvents: number;
+  removedBookings: number;
+  created: number;
+  skipped: number;
+  bookings: number;
+}
+
+/**
+ * Fills the database with sample events and fake bookings
+ * Idempotent: events whose slug already exists are left as they are, so running it twice adds nothing
+ *
+ * @param options.count - Number of events; more than the samples repeats them as numbered editions
+ * @param options.bookingsPerEvent - Fake bookings for each new event
+ * @param options.reset - First remove everything seeded before (events of the demo organizer and their bookings)
+ * @returns What was removed and created
+ */
+export async function seedDatabase({
+  count = DEFAULT_SEED_COUNT,
+  bookingsPerEvent = DEFAULT_SEED_BOOKINGS,
+  reset = false,
+}: {
+  count?: number;
+  bookingsPerEvent?: number;
+  reset?: boolean;
+}): Promise<SeedSummary> {
+  const organizer = await getSeedOrganizer();
+  const summary: SeedSummary = { removedEvents: 0, removedBookings: 0, created: 0, skipped: 0, bookings: 0 };
+
+  if (reset) {
+    const seededIds = await Event.find({ owner: organizer._id }).distinct('_id');
+    summary.removedBookings = (await Booking.deleteMany({ eventId: { $in: seededIds } })).deletedCount;
+    summary.removedEvents = (await Event.deleteMany({ _id: { $in: seededIds } })).deletedCount;
+  }
+
+  const today = new Date();
+
+  for (let start = 0; start < count; start += BATCH_SIZE) {
+    const fields = Array.from({ length: Math.min(BATCH_SIZE, count - start) }, (_, offset) =>
+      buildSeedEvent(start + offset, today)
+    );
+
+    // Slugs are unique, so events that exist (or were renamed from that slug) are skipped
+    const slugs = fields.map((event) => event.slug);
+    const taken = new Set(
+      (await Event.find({ $or: [{ slug: { $in: slugs } }, { previousSlugs: { $in: slugs } }] })
+        .select('slug previousSlugs')
+        .lean())
+        .flatMap((event) => [event.slug, ...event.previousSlugs])
+    );
+
+    const missing = fields.filter((event) => !taken.has(event.slug));
+    summary.skipped += fields.length - missing.length;
+
+    // Created one by one: insertMany would skip the pre-save hook that derives slugs and start/end times
+    const created = await Promise.all(missing.map((event) => Event.create({ ...event, owner: organizer._id })));
+    summary.created += created.length;
+
+    for (const event of created) {
+      const checkInAt = event.startsAt && event.startsAt < today ? event.startsAt : null;
+      const { bookings, seatsTaken } = buildSeedBookings(
+        event._id as Types.ObjectId,
+        event.capacity ?? null,
+        bookingsPerEvent,
+        checkInAt
+      );
+      if (bookings.length === 0) continue;
+
+      await Booking.insertMany(bookings);
+      await Event.updateOne({ _id: event._id }, { $set: { seatsTaken } });
+      summary.bookings += bookings.length;
+    }
+  }
+
+  return summary;
+}
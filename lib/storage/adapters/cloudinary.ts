@@ -0,0 +1,31 @@
+import { v2 as cloudinary, type UploadApiResponse } from 'cloudinary';
+import type { ImageUpload, StorageAdapter, StoredImage } from '../types';
+
+/**
+ * Creates an adapter that stores images in Cloudinary
+ * Credentials are read by the Cloudinary SDK from CLOUDINARY_URL
+ *
+ * @param folder - Cloudinary folder for uploads
+ * @returns Cloudinary storage adapter
+ */
+export function createCloudinaryStorage(folder: string = 'DevEvent'): StorageAdapter {
+  return {
+    name: 'cloudinary',
+    async upload({ buffer }: ImageUpload): Promise<StoredImage> {
+      const result = await new Promise<UploadApiResponse>((resolve, reject) => {
+        cloudinary.uploader
+          .upload_stream({ resource_type: 'image', folder }, (error, response) => {
+            if (error || !response) return reject(error ?? new Error('Cloudinary upload returned no result'));
+
+            resolve(response);
+          })
+          .end(buffer);
+      });
+
+      return { url: result.secure_url, key: result.public_id };
+    },
+    async delete(key: string) {
+      await cloudinary.uploader.destroy(key, { resource_type: 'image', invalidate: true });
+    },
+  };
+}
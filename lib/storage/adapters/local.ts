@@ -0,0 +1,70 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import type { ImageUpload, StorageAdapter, StoredImage } from '../types';
+
+/**
+ * Keys are generated as <uuid>.<extension>; anything else is rejected,
+ * so a key from a URL can never point outside the upload directory
+ */
+const KEY_PATTERN = /^[0-9a-f-]{36}\.(jpg|png|gif|webp)$/;
+
+/**
+ * Path under which locally stored images are served, see app/api/uploads/[key]/route.ts
+ */
+export const LOCAL_UPLOADS_PATH = '/api/uploads';
+
+export function isLocalImageKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+/**
+ * Creates an adapter that stores images on the local disk
+ * Meant for development and tests; files are served by the app itself
+ *
+ * @param directory - Directory to write images to
+ * @returns Local disk storage adapter
+ */
+export function createLocalStorage(directory: string): StorageAdapter {
+  return {
+    name: 'local',
+    async upload({ buffer, extension }: ImageUpload): Promise<StoredImage> {
+      const key = `${randomUUID()}.${extension}`;
+
+      await mkdir(directory, { recursive: true });
+      await writeFile(path.join(directory, key), buffer);
+
+      return { url: `${LOCAL_UPLOADS_PATH}/${key}`, key };
+    },
+    async delete(key: string) {
+      if (!isLocalImageKey(key)) {
+        return;
+      }
+
+      try {
+        await unlink(path.join(directory, key));
+      } catch (error) {
+        // Already gone
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Reads a locally stored image
+ *
+ * @returns File contents, or null if the key is invalid or the file does not exist
+ */
+export async function readLocalImage(directory: string, key: string): Promise<Buffer | null> {
+  if (!isLocalImageKey(key)) {
+    return null;
+  }
+
+  try {
+    return await readFile(path.join(directory, key));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
@@ -0,0 +1,159 @@
+import { RequestValidationError } from '@/lib/api/errors';
+import { IMAGE_UPLOAD_LIMITS } from '@/lib/constants';
+import type { ImageUpload } from './types';
+
+/**
+ * Error thrown when an uploaded file is not an acceptable event image
+ * Reported as a validation error on the image field
+ */
+export class ImageValidationError extends RequestValidationError {
+  constructor(message: string) {
+    super({ image: message }, message);
+    this.name = 'ImageValidationError';
+  }
+}
+
+interface ImageInfo {
+  contentType: string;
+  extension: string;
+  width: number;
+  height: number;
+}
+
+const JPEG_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+/**
+ * Reads the dimensions of a JPEG from its first start-of-frame segment
+ */
+function readJpegSize(buffer: Buffer): { width: number; height: number } | null {
+  let offset = 2;
+
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      return null;
+    }
+
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset += 1; // Fill byte
+      continue;
+    }
+
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+    }
+
+    // Markers without a length field
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+
+  return null;
+}
+
+/**
+ * Reads the dimensions of a lossy, lossless or extended WebP
+ */
+function readWebpSize(buffer: Buffer): { width: number; height: number } | null {
+  const chunk = buffer.toString('ascii', 12, 16);
+
+  if (chunk === 'VP8 ' && buffer.length >= 30) {
+    return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+  }
+
+  if (chunk === 'VP8L' && buffer.length >= 25) {
+    const bits = buffer.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+
+  if (chunk === 'VP8X' && buffer.length >= 30) {
+    return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+  }
+
+  return null;
+}
+
+/**
+ * Detects the image format from the file's magic bytes rather than its declared
+ * MIME type or name, and reads its dimensions from the header
+ *
+ * @returns Format and dimensions, or null if the file is not a supported image
+ */
+function inspectImage(buffer: Buffer): ImageInfo | null {
+  if (buffer.length >= 24 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return { contentType: 'image/png', extension: 'png', width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  if (buffer.length >= 10 && ['GIF87a', 'GIF89a'].includes(buffer.toString('ascii', 0, 6))) {
+    return { contentType: 'image/gif', extension: 'gif', width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    const size = readJpegSize(buffer);
+    return size && { contentType: 'image/jpeg', extension: 'jpg', ...size };
+  }
+
+  if (buffer.length >= 16 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    const size = readWebpSize(buffer);
+    return size && { contentType: 'image/webp', extension: 'webp', ...size };
+  }
+
+  return null;
+}
+
+/**
+ * Checks an uploaded file against IMAGE_UPLOAD_LIMITS: size, format and dimensions
+ *
+ * @param file - Uploaded file from a multipart request
+ * @returns The image contents with its detected MIME type and extension
+ * @throws ImageValidationError if the file is not an acceptable image
+ */
+export async function validateImage(file: File): Promise<ImageUpload> {
+  const { maxBytes } = IMAGE_UPLOAD_LIMITS;
+
+  // Checked before the file is read into memory
+  if (file.size > maxBytes) {
+    throw new ImageValidationError(`Image must be at most ${maxBytes / (1024 * 1024)} MB`);
+  }
+
+  return validateImageBuffer(Buffer.from(await file.arrayBuffer()));
+}
+
+/**
+ * Checks image contents against IMAGE_UPLOAD_LIMITS: size, format and dimensions
+ *
+ * @param buffer - Image contents, e.g. downloaded from an image URL
+ * @returns The image contents with its detected MIME type and extension
+ * @throws ImageValidationError if the contents are not an acceptable image
+ */
+export function validateImageBuffer(buffer: Buffer): ImageUpload {
+  const { maxBytes, contentTypes, minWidth, minHeight, maxWidth, maxHeight } = IMAGE_UPLOAD_LIMITS;
+
+  if (buffer.length === 0) {
+    throw new ImageValidationError('Image file is empty');
+  }
+
+  if (buffer.length > maxBytes) {
+    throw new ImageValidationError(`Image must be at most ${maxBytes / (1024 * 1024)} MB`);
+  }
+
+  const info = inspectImage(buffer);
+
+  if (!info || !(contentTypes as readonly string[]).includes(info.contentType)) {
+    throw new ImageValidationError('Image must be a JPEG, PNG, WebP or GIF file');
+  }
+
+  if (info.width < minWidth || info.height < minHeight) {
+    throw new ImageValidationError(`Image must be at least ${minWidth}x${minHeight} pixels`);
+  }
+
+  if (info.width > maxWidth || info.height > maxHeight) {
+    throw new ImageValidationError(`Image must be at most ${maxWidth}x${maxHeight} pixels`);
+  }
+
+  return { buffer, contentType: info.contentType, extension: info.extension };
+}
@@ -0,0 +1,110 @@
+import { createCloudinaryStorage } from './adapters/cloudinary';
+import { createLocalStorage, readLocalImage } from './adapters/local';
+import { validateImage, validateImageBuffer } from './image';
+import { fetchRemoteImage } from './remote';
+import type { StorageAdapter, StoredImage } from './types';
+
+export type { ImageUpload, StorageAdapter, StoredImage } from './types';
+export { ImageValidationError } from './image';
+export { createCloudinaryStorage, createLocalStorage };
+
+const DEFAULT_UPLOAD_DIR = '.uploads';
+
+/**
+ * Global is used here to keep a single adapter across hot reloads,
+ * and to let tests swap in their own adapter
+ */
+const globalForStorage = global as unknown as { storage?: StorageAdapter };
+
+/**
+ * Builds the adapter selected by the STORAGE_DRIVER environment variable
+ * - cloudinary: CLOUDINARY_URL
+ * - local: writes images to UPLOAD_DIR (default .uploads), served from /api/uploads
+ * Defaults to cloudinary when CLOUDINARY_URL is set, local otherwise
+ */
+function createStorageFromEnv(): StorageAdapter {
+  const driver = process.env.STORAGE_DRIVER ?? (process.env.CLOUDINARY_URL ? 'cloudinary' : 'local');
+
+  switch (driver) {
+    case 'cloudinary':
+      if (!process.env.CLOUDINARY_URL) {
+        throw new Error('CLOUDINARY_URL environment variable is required when STORAGE_DRIVER=cloudinary');
+      }
+      return createCloudinaryStorage();
+    case 'local':
+      return createLocalStorage(getUploadDir());
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"; use cloudinary or local`);
+  }
+}
+
+function getUploadDir(): string {
+  return process.env.UPLOAD_DIR ?? DEFAULT_UPLOAD_DIR;
+}
+
+/**
+ * Returns the active storage adapter, creating it on first use
+ */
+export function getStorage(): StorageAdapter {
+  if (!globalForStorage.storage) {
+    globalForStorage.storage = createStorageFromEnv();
+  }
+  return globalForStorage.storage;
+}
+
+/**
+ * Replaces the active storage adapter (e.g. in tests)
+ */
+export function setStorage(storage: StorageAdapter): void {
+  globalForStorage.storage = storage;
+}
+
+/**
+ * Validates an uploaded image and stores it with the active adapter
+ *
+ * @param file - Uploaded file from a multipart request
+ * @returns Public URL and storage key of the image
+ * @throws ImageValidationError if the file is not an acceptable image
+ */
+export async function uploadImage(file: File): Promise<StoredImage> {
+  return getStorage().upload(await validateImage(file));
+}
+
+/**
+ * Downloads an image from a URL, validates it and stores it with the active adapter
+ * The image is copied rather than linked, so events do not depend on the original host
+ *
+ * @param url - Public http(s) URL of the image
+ * @returns Public URL and storage key of the stored copy
+ * @throws ImageValidationError if the URL cannot be downloaded or is not an acceptable image
+ */
+export async function importImage(url: string): Promise<StoredImage> {
+  return getStorage().upload(validateImageBuffer(await fetchRemoteImage(url)));
+}
+
+/**
+ * Deletes a stored image
+ * Failures are logged rather than thrown: a leftover file must not fail the request that replaced it
+ *
+ * @param key - Storage key of the image; nothing happens when it is empty
+ */
+export async function deleteImage(key: string | null | undefined): Promise<void> {
+  if (!key) {
+    return;
+  }
+
+  try {
+    await getStorage().delete(key);
+  } catch (error) {
+    console.error(`Failed to delete image "${key}":`, error);
+  }
+}
+
+/**
+ * Reads an image written by the local adapter, for serving it
+ *
+ * @returns File contents, or null if there is no such image
+ */
+export async function readUploadedImage(key: string): Promise<Buffer | null> {
+  return readLocalImage(getUploadDir(), key);
+}
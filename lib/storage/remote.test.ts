@@ -0,0 +1,91 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { lookup } from 'dns';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { fetchRemoteImage, isPrivateAddress } from './remote';
+
+vi.mock('dns', async (importOriginal) => {
+  const dns = await importOriginal<typeof import('dns')>();
+  return { ...dns, lookup: vi.fn(dns.lookup) };
+});
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '169.254.169.254',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1%eth0',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '::ffff:a9fe:a9fe',
+    '0:0:0:0:0:ffff:7f00:0001',
+    '::7f00:1',
+    '::ffff:0:7f00:1',
+    '64:ff9b::7f00:1',
+    '64:ff9b:1::8.8.8.8',
+    '2002:7f00:1::',
+    '2002:a9fe:a9fe::1',
+    '2001:0:4136:e378:8000:63bf:80ff:fffe', // Teredo for 127.0.0.1
+    'not-an-address',
+  ])('rejects %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '::ffff:8.8.8.8', '::ffff:808:808', '64:ff9b::808:808', '2002:808:808::', '2606:4700::1111'])(
+    'accepts %s',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe('fetchRemoteImage', () => {
+  let server: Server;
+  let port: number;
+  let requests: number;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests++;
+      res.end('image');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    requests = 0;
+  });
+
+  it.each(['127.0.0.1', '[::ffff:127.0.0.1]', '[::ffff:7f00:1]', '[::7f00:1]', 'localhost'])(
+    'does not connect to %s',
+    async (host) => {
+      await expect(fetchRemoteImage(`http://${host}:${port}/image.png`)).rejects.toThrow(
+        'Image URL must point to a public host'
+      );
+      expect(requests).toBe(0);
+    }
+  );
+
+  it('checks the address a host name resolves to when connecting', async () => {
+    vi.mocked(lookup).mockImplementationOnce(((
+      _hostname: string,
+      _options: unknown,
+      callback: (error: null, addresses: Array<{ address: string; family: number }>) => void
+    ) => callback(null, [{ address: '127.0.0.1', family: 4 }])) as never);
+
+    await expect(fetchRemoteImage(`http://images.test:${port}/image.png`)).rejects.toThrow(
+      'Image URL must point to a public host'
+    );
+    expect(requests).toBe(0);
+  });
+
+  it('rejects other protocols', async () => {
+    await expect(fetchRemoteImage('file:///etc/passwd')).rejects.toThrow('Image URL must use http or https');
+  });
+});
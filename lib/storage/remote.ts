@@ -0,0 +1,246 @@
+import { lookup, type LookupAddress } from 'dns';
+import http, { type IncomingMessage } from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { IMAGE_UPLOAD_LIMITS } from '@/lib/constants';
+import { ImageValidationError } from './image';
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 3;
+
+/**
+ * Addresses that are loopback, private, link-local, reserved or otherwise not publicly routable
+ */
+const NON_PUBLIC_RANGES = new BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Link-local, including cloud metadata services
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 3], // Multicast and reserved
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b:1::', 48], // Local-use NAT64
+  ['100::', 64], // Discard
+  ['2001:db8::', 32], // Documentation
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Reads an IPv6 address into its 16 bytes
+ * Accepts every textual form: compressed (::), with a trailing dotted IPv4 part, and with a zone (%eth0)
+ */
+function parseIPv6(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const left = head ? head.split(':') : [];
+  const right = tail ? tail.split(':') : [];
+  const zeros = tail === undefined ? 0 : 8 - left.length - right.length;
+
+  return [...left, ...Array<string>(zeros).fill('0'), ...right]
+    .map((group) => parseInt(group, 16))
+    .flatMap((group) => [group >> 8, group & 0xff]);
+}
+
+/**
+ * Finds the IPv4 address carried inside an IPv6 address, which reaches that IPv4 host:
+ * IPv4-mapped (::ffff:7f00:1), IPv4-compatible (::7f00:1), IPv4-translated (::ffff:0:7f00:1),
+ * NAT64 (64:ff9b::7f00:1), 6to4 (2002:7f00:1::) and Teredo (2001:0:...)
+ *
+ * @returns The IPv4 address in dotted form, or null if there is none
+ */
+function embeddedIPv4(bytes: number[]): string | null {
+  const startsWith = (prefix: number[]) => prefix.every((byte, i) => bytes[i] === byte);
+  const zeros = (length: number) => Array<number>(length).fill(0);
+  const dotted = (parts: number[]) => parts.join('.');
+
+  if (
+    startsWith([...zeros(10), 0xff, 0xff]) ||
+    startsWith(zeros(12)) ||
+    startsWith([...zeros(8), 0xff, 0xff, 0, 0]) ||
+    startsWith([0, 0x64, 0xff, 0x9b, ...zeros(8)])
+  ) {
+    return dotted(bytes.slice(12));
+  }
+  if (startsWith([0x20, 0x02])) {
+    return dotted(bytes.slice(2, 6));
+  }
+  if (startsWith([0x20, 0x01, 0, 0])) {
+    // Teredo stores the client address with every bit flipped
+    return dotted(bytes.slice(12).map((byte) => byte ^ 0xff));
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ * IPv6 addresses that carry an IPv4 address are checked against the IPv4 ranges too;
+ * anything that is not an IP address counts as not public
+ */
+export function isPrivateAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return NON_PUBLIC_RANGES.check(address, 'ipv4');
+    case 6: {
+      const bytes = parseIPv6(address);
+      const ipv4 = embeddedIPv4(bytes);
+      const normalized = Array.from({ length: 8 }, (_, i) => ((bytes[2 * i] << 8) | bytes[2 * i + 1]).toString(16)).join(':');
+
+      return NON_PUBLIC_RANGES.check(normalized, 'ipv6') || (ipv4 !== null && NON_PUBLIC_RANGES.check(ipv4, 'ipv4'));
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * DNS lookup for outgoing image requests that fails for hosts resolving to internal addresses
+ * The socket connects to the address checked here, so the name cannot resolve elsewhere in between (DNS rebinding)
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error || addresses.length === 0) {
+      callback(new ImageValidationError('Image URL host could not be found'), '', 0);
+    } else if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new ImageValidationError('Image URL must point to a public host'), '', 0);
+    } else if (options.all) {
+      (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Rejects URLs the server must not fetch: anything but http(s), and internal IP addresses
+ * Host names are checked when they are resolved, see publicLookup
+ */
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ImageValidationError('Image URL must use http or https');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new ImageValidationError('Image URL must point to a public host');
+  }
+}
+
+/**
+ * Sends a GET request without following redirects
+ */
+function get(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    client
+      .get(url, { lookup: publicLookup, signal, headers: { Accept: IMAGE_UPLOAD_LIMITS.contentTypes.join(', ') } }, resolve)
+      .on('error', reject);
+  });
+}
+
+/**
+ * Reads a response body, giving up as soon as it exceeds the upload size limit
+ */
+async function readLimitedBody(response: IncomingMessage): Promise<Buffer> {
+  const { maxBytes } = IMAGE_UPLOAD_LIMITS;
+  const tooLarge = () => new ImageValidationError(`Image must be at most ${maxBytes / (1024 * 1024)} MB`);
+
+  if (Number(response.headers['content-length']) > maxBytes) {
+    response.destroy();
+    throw tooLarge();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      response.destroy();
+      throw tooLarge();
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Downloads an image from a URL so it can be validated and stored like an upload
+ * Redirects are followed by hand so every hop is checked for internal hosts
+ *
+ * @param imageUrl - Public http(s) URL of the image
+ * @returns The downloaded contents
+ * @throws ImageValidationError if the URL is not allowed or cannot be downloaded
+ */
+export async function fetchRemoteImage(imageUrl: string): Promise<Buffer> {
+  let url: URL;
+  try {
+    url = new URL(imageUrl);
+  } catch {
+    throw new ImageValidationError('Image must be a file or a valid URL');
+  }
+
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    assertPublicUrl(url);
+
+    let response: IncomingMessage;
+    try {
+      response = await get(url, signal);
+    } catch (error) {
+      if (error instanceof ImageValidationError) throw error;
+      throw new ImageValidationError('Image URL could not be downloaded');
+    }
+
+    const status = response.statusCode ?? 0;
+    const { location } = response.headers;
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new ImageValidationError(`Image URL could not be downloaded (HTTP ${status})`);
+    }
+
+    try {
+      return await readLimitedBody(response);
+    } catch (error) {
+      if (error instanceof ImageValidationError) throw error;
+      throw new ImageValidationError('Image URL could not be downloaded');
+    }
+  }
+
+  throw new ImageValidationError('Image URL redirects too many times');
+}
@@ -0,0 +1,27 @@
+/**
+ * An image that passed validation and is ready to be stored
+ */
+export interface ImageUpload {
+  buffer: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+/**
+ * Where an uploaded image ended up
+ * key identifies the file in its storage so it can be deleted later
+ */
+export interface StoredImage {
+  url: string;
+  key: string;
+}
+
+/**
+ * Stores event images
+ * Every backend (Cloudinary, local disk, ...) implements this interface
+ */
+export interface StorageAdapter {
+  name: string;
+  upload(image: ImageUpload): Promise<StoredImage>;
+  delete(key: string): Promise<void>;
+}
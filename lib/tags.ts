@@ -0,0 +1,30 @@
+import { TAG_ALIASES } from './constants';
+
+/**
+ * Converts a tag to its canonical form: trimmed, lowercase, spaces as hyphens,
+ * with aliases from TAG_ALIASES resolved (e.g. "ReactJS" -> "react")
+ */
+export function normalizeTag(tag: string): string {
+  const normalized = tag
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-');
+
+  return TAG_ALIASES[normalized] ?? normalized;
+}
+
+/**
+ * Normalizes a list of tags, dropping empty tags and duplicates
+ * The first occurrence of each tag keeps its position
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter((tag) => tag.length > 0))];
+}
+
+/**
+ * Path of the page listing a tag's events
+ */
+export function getTagPath(tag: string): string {
+  return `/tags/${encodeURIComponent(tag)}`;
+}
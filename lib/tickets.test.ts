@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Types } from 'mongoose';
+import { Booking, Event } from '@/database';
+import { formatTicketCode, getTicketUrl, normalizeTicketCode } from './tickets';
+
+describe('normalizeTicketCode', () => {
+  it.each([
+    ['ABCDEFGHJK', 'ABCDEFGHJK'],
+    ['abcde-fghjk', 'ABCDEFGHJK'],
+    [' ABCDE FGHJK ', 'ABCDEFGHJK'],
+    ['https://devevent.test/events/node-summit/check-in?code=ABCDEFGHJK', 'ABCDEFGHJK'],
+  ])('reads %j', (input, code) => {
+    expect(normalizeTicketCode(input)).toBe(code);
+  });
+
+  it.each(['ABCDE', 'ABCDEFGHJ0', 'https://devevent.test/events/node-summit', 'https://', ''])('rejects %j', (input) => {
+    expect(normalizeTicketCode(input)).toBeNull();
+  });
+
+  it('reads back the code of a ticket URL', () => {
+    const url = getTicketUrl('node-summit', 'ABCDEFGHJK');
+
+    expect(url).toBe('https://devevent.test/events/node-summit/check-in?code=ABCDEFGHJK');
+    expect(normalizeTicketCode(url)).toBe('ABCDEFGHJK');
+  });
+});
+
+describe('formatTicketCode', () => {
+  it('splits the code in two groups', () => {
+    expect(formatTicketCode('ABCDEFGHJK')).toBe('ABCDE-FGHJK');
+  });
+});
+
+describe('ticket codes of bookings', () => {
+  it('are generated when a booking is created', async () => {
+    vi.spyOn(Event, 'findById').mockResolvedValue(Event.hydrate({ _id: new Types.ObjectId() }) as never);
+    const insertOne = vi.spyOn(Booking.collection, 'insertOne').mockResolvedValue({ acknowledged: true } as never);
+
+    const booking = await Booking.create({ eventId: new Types.ObjectId(), email: 'ada@example.com' });
+
+    expect(normalizeTicketCode(booking.ticketCode ?? '')).toBe(booking.ticketCode);
+    expect(insertOne).toHaveBeenCalledWith(expect.objectContaining({ ticketCode: booking.ticketCode }), expect.anything());
+  });
+
+  it('are not made up for bookings saved before tickets existed', () => {
+    const legacy = Booking.hydrate({ _id: new Types.ObjectId(), eventId: new Types.ObjectId(), email: 'ada@example.com' });
+
+    expect(legacy.ticketCode).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import QRCode from 'qrcode';
+import { TICKET_CODE_ALPHABET, TICKET_CODE_LENGTH } from '@/database';
+
+/**
+ * Ticket codes and their QR images
+ * The QR image holds the check-in URL of the ticket, so staff can scan it with any phone camera;
+ * the check-in page also accepts the bare code, typed or read by a handheld scanner
+ */
+
+const TICKET_CODE_PATTERN = new RegExp(`^[${TICKET_CODE_ALPHABET}]{${TICKET_CODE_LENGTH}}$`);
+
+/**
+ * Formats a ticket code for display, in two groups of five (e.g. "ABCDE-FGHJK")
+ */
+export function formatTicketCode(code: string): string {
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * Reads a ticket code from what staff typed or scanned
+ * Accepts the code with or without dashes and spaces, in any case, or the check-in URL of the QR image
+ *
+ * @param input - Typed code or scanned QR content
+ * @returns The code in its stored form, or null if the input is not a ticket code
+ */
+export function normalizeTicketCode(input: string): string | null {
+  let value = input.trim();
+
+  if (/^https?:\/\//i.test(value)) {
+    try {
+      value = new URL(value).searchParams.get('code') ?? '';
+    } catch {
+      return null;
+    }
+  }
+
+  const code = value.toUpperCase().replace(/[\s-]/g, '');
+
+  return TICKET_CODE_PATTERN.test(code) ? code : null;
+}
+
+/**
+ * Path of an event's check-in page, optionally with a ticket code filled in
+ */
+export function getCheckInPath(slug: string, code?: string): string {
+  return `/events/${slug}/check-in${code ? `?code=${code}` : ''}`;
+}
+
+/**
+ * Absolute check-in URL of a ticket, as encoded in its QR image
+ */
+export function getTicketUrl(slug: string, code: string): string {
+  return `${process.env.NEXT_PUBLIC_BASE_URL ?? ''}${getCheckInPath(slug, code)}`;
+}
+
+const QR_OPTIONS = { errorCorrectionLevel: 'M', margin: 2, width: 240 } as const;
+
+/**
+ * Renders the QR image of a ticket as a PNG data URL, for showing it on a page
+ */
+export function renderTicketQrDataUrl(slug: string, code: string): Promise<string> {
+  return QRCode.toDataURL(getTicketUrl(slug, code), QR_OPTIONS);
+}
+
+/**
+ * Renders the QR image of a ticket as PNG bytes, for attaching it to an email
+ */
+export function renderTicketQrPng(slug: string, code: string): Promise<Buffer> {
+  return QRCode.toBuffer(getTicketUrl(slug, code), QR_OPTIONS);
+}
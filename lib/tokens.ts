@@ -0,0 +1,87 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Result of verifying a signed token
+ */
+export type TokenVerification<T> =
+  | { valid: true; payload: T }
+  | { valid: false; reason: 'malformed' | 'invalid-signature' | 'wrong-purpose' | 'expired' };
+
+interface TokenClaims {
+  purpose: string;
+  exp: number; // Expiry as a Unix timestamp in seconds
+}
+
+/**
+ * Reads the signing secret from the environment
+ * Tokens cannot be tamper-proof without it, so a missing secret is a configuration error
+ */
+function getSecret(): string {
+  const secret = process.env.TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('TOKEN_SECRET environment variable is not set');
+  }
+  return secret;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Creates a signed, expiring token
+ * Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256 signature)
+ *
+ * @param purpose - What the token may be used for; checked on verification
+ * @param payload - Data to embed in the token
+ * @param ttlSeconds - How long the token stays valid
+ * @returns URL-safe token string
+ */
+export function signToken<T extends object>(purpose: string, payload: T, ttlSeconds: number): string {
+  const claims: T & TokenClaims = {
+    ...payload,
+    purpose,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+  };
+  const data = Buffer.from(JSON.stringify(claims)).toString('base64url');
+
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Verifies a token created by signToken
+ * The signature is compared in constant time before the payload is trusted
+ *
+ * @param purpose - Expected token purpose
+ * @param token - Token string to verify
+ * @returns The payload if the token is valid, otherwise the reason it was rejected
+ */
+export function verifyToken<T extends object>(purpose: string, token: string): TokenVerification<T> {
+  const [data, signature, ...rest] = token.split('.');
+  if (!data || !signature || rest.length > 0) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'invalid-signature' };
+  }
+
+  let claims: T & TokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (claims.purpose !== purpose) {
+    return { valid: false, reason: 'wrong-purpose' };
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, payload: claims };
+}
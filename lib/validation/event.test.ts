@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { validate } from '.';
+import { importEventSchema, updateEventSchema } from './event';
+
+const event = {
+  title: 'Node Summit',
+  description: 'Two days of Node.js talks',
+  overview: 'Talks and workshops',
+  image: 'https://images.test/node.png',
+  venue: 'Hall A',
+  location: 'Berlin',
+  date: '2099-05-01',
+  time: '09:00',
+  mode: 'offline',
+  audience: 'Developers',
+  agenda: '["Keynote","Workshops"]',
+  organizer: 'Node Org',
+  tags: 'node, javascript',
+};
+
+describe('event schemas', () => {
+  it('coerces text fields into the types of the model', () => {
+    const result = validate(importEventSchema, { ...event, capacity: '40', mode: ' Offline ' });
+
+    expect(result).toMatchObject({
+      success: true,
+      data: { agenda: ['Keynote', 'Workshops'], tags: ['node', 'javascript'], capacity: 40, mode: 'offline' },
+    });
+  });
+
+  it.each([
+    ['date', '2025-02-30', 'Date must be a valid date (YYYY-MM-DD)'],
+    ['date', '01/05/2099', 'Date must be a valid date (YYYY-MM-DD)'],
+    ['time', '25:99', 'Time must be in HH:MM (00:00-23:59) or h:mm AM/PM format'],
+    ['endDate', '2099-04-31', 'End date must be a valid date (YYYY-MM-DD)'],
+    ['endTime', '24:00', 'End time must be in HH:MM (00:00-23:59) or h:mm AM/PM format'],
+    ['timezone', 'Mars/Olympus', 'Timezone must be a valid IANA timezone (e.g. Europe/Amsterdam)'],
+    ['capacity', '0', 'Capacity must be at least 1'],
+    ['image', 'ftp://images.test/node.png', 'Image must be an http(s) URL'],
+  ])('rejects %s %j', (field, value, message) => {
+    expect(validate(importEventSchema, { ...event, [field]: value })).toEqual({
+      success: false,
+      errors: { [field]: message },
+    });
+  });
+
+  it('reports unknown fields', () => {
+    expect(validate(updateEventSchema, { venu: 'Hall B' })).toEqual({ success: false, errors: { venu: 'Unknown field' } });
+  });
+
+  it('reports every missing required field', () => {
+    const result = validate(importEventSchema, {});
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors).toMatchObject({ title: 'Title is required', date: 'Date is required' });
+  });
+});
@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { EVENT_MODES } from '@/lib/constants';
+import { isValidDate, isValidTime, isValidTimeZone } from '@/lib/datetime';
+
+/**
+ * Request schemas for creating and updating events
+ * They mirror eventSchema so bad input is rejected with a reason per field before it reaches Mongoose,
+ * and coerce the strings of multipart form data into the types the model expects
+ * JSON bodies use the same schemas, with real arrays and numbers
+ */
+
+const requiredText = (label: string) =>
+  z.string({ error: `${label} is required` }).trim().min(1, { error: `${label} is required` });
+
+/**
+ * Treats empty form fields as not sent
+ */
+const emptyToUndefined = (value: unknown) => (value === '' || value === null ? undefined : value);
+
+/**
+ * Accepts a list as an array, a JSON array string, or (for tags) a comma-separated string
+ * Strings that cannot be read as a list are left as-is so the array check reports them
+ */
+const toList = (splitCommas: boolean) => (value: unknown) => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return value;
+    }
+  }
+
+  return splitCommas ? trimmed.split(',') : [trimmed];
+};
+
+/**
+ * Image given as a link; only http(s) URLs are accepted
+ */
+const imageUrl = z.url({ protocol: /^https?$/, error: 'Image must be an http(s) URL' });
+
+const eventFields = {
+  title: requiredText('Title').max(100, { error: 'Title cannot exceed 100 characters' }),
+  description: requiredText('Description').max(1000, { error: 'Description cannot exceed 1000 characters' }),
+  overview: requiredText('Overview').max(500, { error: 'Overview cannot exceed 500 characters' }),
+  venue: requiredText('Venue'),
+  location: requiredText('Location'),
+  date: requiredText('Date').refine(isValidDate, {
+    error: 'Date must be a valid date (YYYY-MM-DD)',
+  }),
+  time: requiredText('Time').refine(isValidTime, {
+    error: 'Time must be in HH:MM (00:00-23:59) or h:mm AM/PM format',
+  }),
+  timezone: z.preprocess(
+    emptyToUndefined,
+    z.string().trim().refine(isValidTimeZone, { error: 'Timezone must be a valid IANA timezone (e.g. Europe/Amsterdam)' }).optional()
+  ),
+  endDate: z.preprocess(
+    emptyToUndefined,
+    z.string().trim().refine(isValidDate, {
+      error: 'End date must be a valid date (YYYY-MM-DD)',
+    }).optional()
+  ),
+  endTime: z.preprocess(
+    emptyToUndefined,
+    z.string().trim().refine(isValidTime, {
+      error: 'End time must be in HH:MM (00:00-23:59) or h:mm AM/PM format',
+    }).optional()
+  ),
+  mode: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+    z.enum(EVENT_MODES, { error: `Mode must be one of: ${EVENT_MODES.join(', ')}` })
+  ),
+  audience: requiredText('Audience'),
+  agenda: z.preprocess(
+    toList(false),
+    z
+      .array(z.string({ error: 'Agenda items must be text' }).trim().min(1, { error: 'Agenda items cannot be empty' }), {
+        error: 'Agenda must be an array of items',
+      })
+      .min(1, { error: 'Agenda must be a non-empty array' })
+  ),
+  organizer: requiredText('Organizer'),
+  tags: z.preprocess(
+    toList(true),
+    z
+      .array(z.string({ error: 'Tags must be text' }).trim().min(1, { error: 'Tags cannot be empty' }), {
+        error: 'Tags must be an array or a comma-separated list',
+      })
+      .min(1, { error: 'Tags must be a non-empty array' })
+  ),
+  // Empty or null means unlimited
+  capacity: z.preprocess(
+    (value) => (value === '' ? null : value),
+    z.coerce
+      .number({ error: 'Capacity must be a number' })
+      .int({ error: 'Capacity must be a whole number' })
+      .min(1, { error: 'Capacity must be at least 1' })
+      .nullable()
+      .optional()
+  ),
+};
+
+/**
+ * Fields of POST /api/events
+ * The image is an uploaded file (multipart) or a URL to download it from (JSON or multipart)
+ */
+export const createEventSchema = z.strictObject({
+  ...eventFields,
+  image: z.preprocess(
+    emptyToUndefined,
+    z.union([z.instanceof(File), imageUrl], {
+      error: (issue) => (issue.input === undefined ? 'Image file or URL is required' : 'Image must be a file or an http(s) URL'),
+    })
+  ),
+});
+
+/**
+ * Fields of PATCH /api/events/[slug]; every field is optional and image may be set to a URL to download
+ * Keys match EDITABLE_EVENT_FIELDS
+ */
+export const updateEventSchema = z
+  .strictObject({
+    ...eventFields,
+    image: imageUrl,
+  })
+  .partial();
+
+/**
+ * One event of a bulk import, see lib/event-transfer.ts
+ * The image is a URL, downloaded on import like an image URL sent to POST; slug is optional and finds the event to update
+ */
+export const importEventSchema = z.strictObject({
+  ...eventFields,
+  slug: z.preprocess(
+    emptyToUndefined,
+    z
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, { error: 'Slug may only contain letters, digits and single hyphens' })
+      .optional()
+  ),
+  image: imageUrl,
+});
+
+export type CreateEventInput = z.infer<typeof createEventSchema>;
+export type UpdateEventInput = z.infer<typeof updateEventSchema>;
+export type ImportEventInput = z.infer<typeof importEventSchema>;
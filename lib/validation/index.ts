@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import type { FieldErrors } from '@/lib/api/errors';
+
+export type { FieldErrors };
+
+/**
+ * Converts a failed zod parse into field errors
+ * Unknown fields are reported under their own name; the first issue of each field wins
+ */
+export function fieldErrorsFromZod(error: z.ZodError): FieldErrors {
+  const errors: FieldErrors = {};
+
+  for (const issue of error.issues) {
+    const paths = issue.code === 'unrecognized_keys'
+      ? issue.keys.map((key) => [...issue.path, key].join('.'))
+      : [issue.path.join('.') || '_'];
+
+    for (const path of paths) {
+      errors[path] ??= issue.code === 'unrecognized_keys' ? 'Unknown field' : issue.message;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Converts a Mongoose ValidationError into field errors
+ */
+export function fieldErrorsFromMongoose(error: mongoose.Error.ValidationError): FieldErrors {
+  return Object.fromEntries(Object.entries(error.errors).map(([path, fieldError]) => [path, fieldError.message]));
+}
+
+/**
+ * Parses a value with a zod schema
+ *
+ * @returns The parsed value, or the field errors if it is invalid
+ */
+export function validate<T extends z.ZodType>(
+  schema: T,
+  value: unknown
+): { success: true; data: z.output<T> } | { success: false; errors: FieldErrors } {
+  const result = schema.safeParse(value);
+
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, errors: fieldErrorsFromZod(result.error) };
+}
@@ -0,0 +1,60 @@
+import './load-env';
+import { parseArgs } from 'util';
+import { connectDB, disconnectDB } from '@/lib/mongodb';
+import { backfillEventSchedule, backfillEventTags, backfillSeatsTaken, backfillTicketCodes, type BackfillSummary } from '@/lib/backfill';
+
+const USAGE = `One-off updates for data saved by older versions of the app
+
+Usage:
+  npm run backfill -- <task>
+
+Tasks:
+  schedule  Store the start and end of older events, so upcoming and past listings include them
+  seats     Count confirmed bookings into each event's seat counter (run while no bookings are made)
+  tags      Normalize event tags, so "React" and "ReactJS" count as the tag "react"
+  tickets   Give ticket codes to active bookings made before tickets existed
+
+Each task can be run again; documents already up to date are left alone.`;
+
+const TASKS: Record<string, { run: () => Promise<BackfillSummary>; noun: string }> = {
+  schedule: { run: backfillEventSchedule, noun: 'events' },
+  seats: { run: backfillSeatsTaken, noun: 'events' },
+  tags: { run: backfillEventTags, noun: 'events' },
+  tickets: { run: backfillTicketCodes, noun: 'bookings' },
+};
+
+async function main(): Promise<number> {
+  let task;
+  try {
+    const { positionals, values } = parseArgs({ options: { help: { type: 'boolean' } }, allowPositionals: true });
+    const [name] = positionals;
+
+    if (values.help || !name) {
+      console.log(USAGE);
+      return 0;
+    }
+
+    task = TASKS[name];
+    if (!task) {
+      throw new Error(`Unknown task: ${name}`);
+    }
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    await connectDB();
+
+    const { scanned, updated } = await task.run();
+    console.log(`Updated ${updated} of ${scanned} ${task.noun}`);
+
+    return 0;
+  } finally {
+    await disconnectDB();
+  }
+}
+
+main().then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,165 @@
+import './load-env';
+import { createWriteStream } from 'fs';
+import { readFile } from 'fs/promises';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { parseArgs } from 'util';
+import { User } from '@/database';
+import { connectDB, disconnectDB } from '@/lib/mongodb';
+import { ApiError } from '@/lib/api/errors';
+import { parseEventQuery } from '@/lib/events';
+import {
+  EventImportError,
+  detectTransferFormat,
+  exportEvents,
+  importEvents,
+  parseImportFile,
+} from '@/lib/event-transfer';
+import { TRANSFER_FORMATS, type TransferFormat } from '@/lib/export-stream';
+
+const USAGE = `Bulk import and export of events
+
+Usage:
+  npm run events -- import <file.csv|file.json> --owner <email> [--dry-run]
+  npm run events -- export [--format csv|json] [--out <file>] [--<filter> <value> ...]
+
+Import creates events, or updates the owner's events with the same slug.
+With --dry-run nothing is written; every row is checked and reported.
+
+Export writes every event matching the filters of GET /api/events
+(mode, tag, location, organizer, month, when, from, to, sort, order) to --out, or to stdout.`;
+
+const OPTIONS = {
+  owner: { type: 'string' },
+  'dry-run': { type: 'boolean' },
+  format: { type: 'string' },
+  out: { type: 'string' },
+  // Filters of the export, as in GET /api/events
+  mode: { type: 'string' },
+  tag: { type: 'string', multiple: true },
+  location: { type: 'string' },
+  organizer: { type: 'string' },
+  month: { type: 'string' },
+  when: { type: 'string' },
+  from: { type: 'string' },
+  to: { type: 'string' },
+  sort: { type: 'string' },
+  order: { type: 'string' },
+} as const;
+
+type Options = Record<string, string | string[] | boolean | undefined>;
+
+class UsageError extends Error {}
+
+async function runImport(file: string | undefined, options: Options) {
+  if (!file || typeof options.owner !== 'string') {
+    throw new UsageError('import needs a file and --owner <email>');
+  }
+
+  const format = detectTransferFormat(file);
+  if (!format) {
+    throw new UsageError('The import file must end in .csv or .json');
+  }
+
+  let rows: unknown[];
+  try {
+    rows = parseImportFile(await readFile(file, 'utf8'), format);
+  } catch (error) {
+    // A missing or unreadable file (ENOENT, EACCES, EISDIR...) or content that is not CSV/JSON
+    if (error instanceof EventImportError) {
+      throw new UsageError(`${file}: ${error.message}`);
+    }
+    const { code, message } = error as NodeJS.ErrnoException;
+    if (code) {
+      throw new UsageError(`Cannot read ${file}: ${code === 'ENOENT' ? 'no such file' : message}`);
+    }
+    throw error;
+  }
+
+  await connectDB();
+
+  const owner = await User.findOne({ email: options.owner.toLowerCase() });
+  if (!owner) {
+    throw new UsageError(`No account with email ${options.owner}`);
+  }
+
+  const report = await importEvents(rows, { owner, dryRun: options['dry-run'] === true });
+
+  for (const row of report.rows) {
+    if (row.errors) {
+      const reasons = Object.entries(row.errors).map(([field, message]) => `${field}: ${message}`);
+      console.error(`Row ${row.row}${row.slug ? ` (${row.slug})` : ''}: ${reasons.join('; ')}`);
+    } else {
+      console.log(`Row ${row.row}: ${row.action} ${row.slug}`);
+    }
+  }
+
+  if (!report.dryRun && report.written > 0 && !report.applied) {
+    console.log(`${report.written} written, ${report.failed} failed while writing`);
+  } else {
+    const verb = report.applied ? '' : 'would be ';
+    console.log(
+      `${report.created} ${verb}created, ${report.updated} ${verb}updated, ${report.failed} invalid` +
+        (report.dryRun ? ' (dry run, nothing written)' : report.applied ? '' : ' (nothing written)')
+    );
+  }
+
+  return report.failed === 0;
+}
+
+async function runExport(options: Options) {
+  const { format = 'json', out, ...filters } = options;
+
+  if (!TRANSFER_FORMATS.includes(format as TransferFormat)) {
+    throw new UsageError(`--format must be one of: ${TRANSFER_FORMATS.join(', ')}`);
+  }
+
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(filters)) {
+    for (const item of [value].flat()) {
+      if (typeof item === 'string') params.append(name, item);
+    }
+  }
+  const query = parseEventQuery(params);
+
+  await connectDB();
+
+  const stream = Readable.fromWeb(exportEvents(query, format as TransferFormat) as Parameters<typeof Readable.fromWeb>[0]);
+  await pipeline(stream, typeof out === 'string' ? createWriteStream(out) : process.stdout);
+
+  return true;
+}
+
+async function main(): Promise<number> {
+  try {
+    const { positionals, values } = parseArgs({ options: OPTIONS, allowPositionals: true });
+    const [command, file] = positionals;
+
+    switch (command) {
+      case 'import':
+        return (await runImport(file, values)) ? 0 : 1;
+      case 'export':
+        return (await runExport(values)) ? 0 : 1;
+      default:
+        console.log(USAGE);
+        return command ? 2 : 0;
+    }
+  } catch (error) {
+    // parseArgs reports unknown or incomplete options with an ERR_PARSE_ARGS_* code
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`${(error as Error).message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (error instanceof ApiError) {
+      console.error(error.message);
+      return 1;
+    }
+    throw error;
+  } finally {
+    await disconnectDB();
+  }
+}
+
+main().then((code) => {
+  process.exitCode = code;
+});
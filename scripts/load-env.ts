@@ -0,0 +1,12 @@
+/**
+ * Loads .env.local and .env into process.env for command-line scripts, like `next dev` does
+ * Import this first: lib/mongodb reads MONGODB_URI as soon as it is imported
+ * Variables already set in the environment win
+ */
+for (const file of ['.env.local', '.env']) {
+  try {
+    process.loadEnvFile(file);
+  } catch {
+    // The file is optional
+  }
+}
@@ -0,0 +1,81 @@
+import './load-env';
+import { parseArgs } from 'util';
+import { connectDB, disconnectDB } from '@/lib/mongodb';
+import { DEFAULT_SEED_BOOKINGS, DEFAULT_SEED_COUNT, SEED_ORGANIZER, seedDatabase } from '@/lib/seed';
+
+const USAGE = `Fills the database with sample events and fake bookings
+
+Usage:
+  npm run seed -- [--reset] [--count <events>] [--bookings <per event>]
+
+--count     Number of events (default ${DEFAULT_SEED_COUNT}); more than the samples repeats them as numbered editions
+--bookings  Fake bookings per new event (default ${DEFAULT_SEED_BOOKINGS})
+--reset     Remove previously seeded events and their bookings first
+
+Running it again only adds what is missing.`;
+
+/**
+ * Reads a whole-number option
+ */
+function readCount(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`--${name} must be a whole number`);
+  }
+
+  return count;
+}
+
+async function main(): Promise<number> {
+  let options;
+  try {
+    const { values } = parseArgs({
+      options: {
+        reset: { type: 'boolean' },
+        count: { type: 'string' },
+        bookings: { type: 'string' },
+        help: { type: 'boolean' },
+      },
+    });
+
+    if (values.help) {
+      console.log(USAGE);
+      return 0;
+    }
+
+    options = {
+      reset: values.reset === true,
+      count: readCount(values.count, 'count', DEFAULT_SEED_COUNT),
+      bookingsPerEvent: readCount(values.bookings, 'bookings', DEFAULT_SEED_BOOKINGS),
+    };
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    await connectDB();
+
+    const summary = await seedDatabase(options);
+
+    if (options.reset) {
+      console.log(`Removed ${summary.removedEvents} seeded events and ${summary.removedBookings} bookings`);
+    }
+    console.log(
+      `Created ${summary.created} events with ${summary.bookings} bookings; ${summary.skipped} already existed`
+    );
+    console.log(`Sign in as ${SEED_ORGANIZER.email} / ${SEED_ORGANIZER.password} to manage them`);
+
+    return 0;
+  } finally {
+    await disconnectDB();
+  }
+}
+
+main().then((code) => {
+  process.exitCode = code;
+});
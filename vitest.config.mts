@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    // Tests stub model calls, so no database is needed; mail goes to the in-memory transport
+    env: { TOKEN_SECRET: 'test-secret', MAIL_TRANSPORT: 'memory', NEXT_PUBLIC_BASE_URL: 'https://devevent.test' },
+    restoreMocks: true,
+  },
+});